@@ -0,0 +1,14 @@
+import { saveReleaseArtifact } from "@cloudwalk/brlc-test-utils/upgrades";
+
+async function main() {
+  const CONTRACT_NAME = "AssetTransitDesk";
+  const RELEASE_FILE = "test/releases/AssetTransitDesk.json"; // the file tested by `shouldUpgradeSafelyFromRelease()`
+
+  await saveReleaseArtifact(CONTRACT_NAME, RELEASE_FILE);
+
+  console.log("Release artifact saved:", RELEASE_FILE);
+}
+
+main().catch((err) => {
+  throw err;
+});
@@ -3,7 +3,25 @@ import { ethers, upgrades } from "hardhat";
 import { expect } from "chai";
 import { TransactionResponse } from "ethers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { checkEquality, checkTokenPath, resultToObject, setUpFixture } from "@cloudwalk/brlc-test-utils";
+import {
+  checkEquality,
+  checkTokenPath,
+  checkVersion,
+  checkVersionMatchesChangelog,
+  connect,
+  connectTyped,
+  defineFixture,
+  deployProxy,
+  getAddress,
+  proveTx,
+  resultToObject,
+  setUpFixture,
+  shouldBehaveLikePausableExt,
+  shouldBehaveLikeRescuable,
+  shouldEnforceAccessControl,
+  shouldUpgradeSafelyFromRelease,
+  Version,
+} from "@cloudwalk/brlc-test-utils";
 import * as Contracts from "../typechain-types";
 
 const ADDRESS_ZERO = ethers.ZeroAddress;
@@ -26,8 +44,9 @@ let manager: HardhatEthersSigner; // has MANAGER_ROLE
 let account: HardhatEthersSigner; // has no roles
 let pauser: HardhatEthersSigner; // has PAUSER_ROLE
 let stranger: HardhatEthersSigner; // has no roles
+let rescuer: HardhatEthersSigner; // has RESCUER_ROLE in the fixture of the rescuing tests
 
-const EXPECTED_VERSION = {
+const EXPECTED_VERSION: Version = {
   major: 1,
   minor: 3,
   patch: 0,
@@ -38,30 +57,26 @@ enum OperationStatus {
   Successful = 1,
 }
 
-async function deployContracts() {
+// the contracts without the configuration, e.g. to test the default state
+const contractsFixture = defineFixture(async () => {
   const name = "ERC20 Test";
   const symbol = "TEST";
 
   const tokenMockDeployment = await tokenMockFactory.deploy(name, symbol);
   await tokenMockDeployment.waitForDeployment();
 
-  const tokenMock = tokenMockDeployment.connect(deployer);
+  const tokenMock = connectTyped(tokenMockDeployment, deployer);
   const tokenAddress = await tokenMock.getAddress();
 
-  const assetTransitDesk = await upgrades.deployProxy(assetTransitDeskFactory, [tokenAddress]);
-  await assetTransitDesk.waitForDeployment();
+  const assetTransitDesk = await deployProxy(assetTransitDeskFactory, [tokenAddress]);
 
   const treasury = await treasuryFactory.deploy(tokenAddress);
   await treasury.waitForDeployment();
 
   return { assetTransitDesk, tokenMock, treasury };
-}
+});
 
-async function configureContracts(
-  assetTransitDesk: Contracts.AssetTransitDesk,
-  tokenMock: Contracts.ERC20TokenMock,
-  treasury: Contracts.TreasuryMock,
-) {
+const configuredContractsFixture = contractsFixture.extend(async ({ assetTransitDesk, tokenMock, treasury }) => {
   await assetTransitDesk.grantRole(GRANTOR_ROLE, deployer.address);
   await assetTransitDesk.grantRole(MANAGER_ROLE, manager.address);
   await assetTransitDesk.grantRole(PAUSER_ROLE, pauser.address);
@@ -72,18 +87,12 @@ async function configureContracts(
   await tokenMock.connect(account).approve(assetTransitDesk, BALANCE_INITIAL);
 
   await assetTransitDesk.setTreasury(treasury);
-}
-
-async function deployAndConfigureContracts() {
-  const contracts = await deployContracts();
-
-  await configureContracts(contracts.assetTransitDesk, contracts.tokenMock, contracts.treasury);
-  return contracts;
-}
+  return {};
+});
 
 describe("Contract 'AssetTransitDesk'", () => {
   before(async () => {
-    [deployer, manager, account, pauser, stranger] = await ethers.getSigners();
+    [deployer, manager, account, pauser, stranger, rescuer] = await ethers.getSigners();
 
     assetTransitDeskFactory = await ethers.getContractFactory("AssetTransitDesk");
     assetTransitDeskFactory = assetTransitDeskFactory.connect(deployer);
@@ -98,7 +107,7 @@ describe("Contract 'AssetTransitDesk'", () => {
   let treasury: Contracts.TreasuryMock;
 
   beforeEach(async () => {
-    ({ assetTransitDesk, tokenMock, treasury } = await setUpFixture(deployAndConfigureContracts));
+    ({ assetTransitDesk, tokenMock, treasury } = await configuredContractsFixture());
   });
 
   describe("Method 'initialize()'", () => {
@@ -106,7 +115,7 @@ describe("Contract 'AssetTransitDesk'", () => {
 
     beforeEach(async () => {
       // deploying contract without configuration to test the default state
-      const contracts = await setUpFixture(deployContracts);
+      const contracts = await contractsFixture();
       deployedContract = contracts.assetTransitDesk;
     });
 
@@ -188,11 +197,11 @@ describe("Contract 'AssetTransitDesk'", () => {
 
   describe("Method '$__VERSION()'", () => {
     it("should return the expected version", async () => {
-      expect(await assetTransitDesk.$__VERSION()).to.deep.equal([
-        EXPECTED_VERSION.major,
-        EXPECTED_VERSION.minor,
-        EXPECTED_VERSION.patch,
-      ]);
+      await checkVersion(assetTransitDesk, EXPECTED_VERSION);
+    });
+
+    it("should match the latest changelog entry", async () => {
+      await checkVersionMatchesChangelog(assetTransitDesk);
     });
   });
 
@@ -219,9 +228,9 @@ describe("Contract 'AssetTransitDesk'", () => {
       });
 
       it("should update token balances correctly", async () => {
-        await expect(tx).to.changeTokenBalances(tokenMock,
-          [treasury, account, assetTransitDesk],
-          [principalAmount, -principalAmount, 0],
+        await expect(tx).to.changeBalances(
+          { BRLC: { treasury: principalAmount, account: -principalAmount, assetTransitDesk: 0n } },
+          { labels: { BRLC: tokenMock, treasury, account, assetTransitDesk }, strict: true },
         );
       });
 
@@ -275,14 +284,6 @@ describe("Contract 'AssetTransitDesk'", () => {
           .to.be.revertedWithCustomError(assetTransitDesk, "AssetTransitDesk_BuyerAddressZero");
       });
 
-      it("the contract is paused", async () => {
-        await assetTransitDesk.connect(pauser).pause();
-        await expect(
-          assetTransitDesk.connect(manager).issueAsset(assetIssuanceId, account.address, 10n),
-        )
-          .to.be.revertedWithCustomError(assetTransitDesk, "EnforcedPause");
-      });
-
       it("the operation already exists", async () => {
         const someAmount = 10n;
         await assetTransitDesk.connect(manager).issueAsset(assetIssuanceId, account.address, someAmount);
@@ -294,7 +295,7 @@ describe("Contract 'AssetTransitDesk'", () => {
       });
 
       it("the treasury is not configured", async () => {
-        const { assetTransitDesk: freshDesk, tokenMock: freshToken } = await deployContracts();
+        const { assetTransitDesk: freshDesk, tokenMock: freshToken } = await contractsFixture.deploy();
         await freshDesk.grantRole(GRANTOR_ROLE, deployer.address);
         await freshDesk.grantRole(MANAGER_ROLE, manager.address);
         await freshToken.mint(account, BALANCE_INITIAL);
@@ -331,9 +332,15 @@ describe("Contract 'AssetTransitDesk'", () => {
         });
 
         it("should update token balances correctly", async () => {
-          await expect(tx).to.changeTokenBalances(tokenMock,
-            [treasury, account, assetTransitDesk],
-            [-(principalAmount + netYieldAmount), principalAmount + netYieldAmount, 0],
+          await expect(tx).to.changeBalances(
+            {
+              BRLC: {
+                treasury: -(principalAmount + netYieldAmount),
+                account: principalAmount + netYieldAmount,
+                assetTransitDesk: 0n,
+              },
+            },
+            { labels: { BRLC: tokenMock, treasury, account, assetTransitDesk }, strict: true },
           );
         });
 
@@ -394,14 +401,6 @@ describe("Contract 'AssetTransitDesk'", () => {
           .to.be.revertedWithCustomError(assetTransitDesk, "AssetTransitDesk_BuyerAddressZero");
       });
 
-      it("the contract is paused", async () => {
-        await assetTransitDesk.connect(pauser).pause();
-        await expect(
-          assetTransitDesk.connect(manager).redeemAsset(assetRedemptionId, account.address, 10n, 10n),
-        )
-          .to.be.revertedWithCustomError(assetTransitDesk, "EnforcedPause");
-      });
-
       it("the operation already exists", async () => {
         const someAmount = 10n;
         const someNetYieldAmount = 10n;
@@ -424,7 +423,7 @@ describe("Contract 'AssetTransitDesk'", () => {
       });
 
       it("the treasury is not configured", async () => {
-        const { assetTransitDesk: freshDesk } = await deployContracts();
+        const { assetTransitDesk: freshDesk } = await contractsFixture.deploy();
         await freshDesk.grantRole(GRANTOR_ROLE, deployer.address);
         await freshDesk.grantRole(MANAGER_ROLE, manager.address);
 
@@ -582,7 +581,7 @@ describe("Contract 'AssetTransitDesk'", () => {
     });
 
     it("Configuration scenario", async () => {
-      const { assetTransitDesk, tokenMock, treasury } = await deployContracts();
+      const { assetTransitDesk, tokenMock, treasury } = await contractsFixture.deploy();
 
       await expect.startChainshot({
         name: "Configuration",
@@ -601,4 +600,85 @@ describe("Contract 'AssetTransitDesk'", () => {
       await expect.stopChainshot();
     });
   });
+
+  async function deployPausableFixture() {
+    const { assetTransitDesk } = await configuredContractsFixture.deploy();
+    return { contract: assetTransitDesk, pauser };
+  }
+
+  async function deployRescuableFixture() {
+    const { assetTransitDesk, tokenMock } = await configuredContractsFixture.deploy();
+    await assetTransitDesk.grantRole(RESCUER_ROLE, rescuer.address);
+    await tokenMock.mint(assetTransitDesk, BALANCE_INITIAL);
+    return { contract: assetTransitDesk, rescuer, token: tokenMock };
+  }
+
+  shouldBehaveLikePausableExt(deployPausableFixture, {
+    pausedFunctions: {
+      "issueAsset()": desk => connect(desk, manager).issueAsset(ethers.id("issuance"), account.address, 10n),
+      "redeemAsset()": desk => connect(desk, manager).redeemAsset(ethers.id("redemption"), account.address, 10n, 10n),
+    },
+  });
+
+  shouldBehaveLikeRescuable(deployRescuableFixture);
+
+  async function deployAccessControlFixture() {
+    const { assetTransitDesk } = await configuredContractsFixture.deploy();
+    await assetTransitDesk.grantRole(RESCUER_ROLE, rescuer.address);
+    return { contract: assetTransitDesk };
+  }
+
+  // the function access control of `ROLE_CONFIGURATION.md`
+  shouldEnforceAccessControl(deployAccessControlFixture, {
+    initialize: null,
+    grantRole: null,
+    revokeRole: null,
+    renounceRole: null,
+    grantRoleBatch: null,
+    revokeRoleBatch: null,
+    setRoleAdmin: "OWNER_ROLE",
+    upgradeToAndCall: "OWNER_ROLE",
+    pause: "PAUSER_ROLE",
+    unpause: "PAUSER_ROLE",
+    rescueERC20: "RESCUER_ROLE",
+    approve: "OWNER_ROLE",
+    setTreasury: "OWNER_ROLE",
+    issueAsset: "MANAGER_ROLE",
+    redeemAsset: "MANAGER_ROLE",
+  }, {
+    // the implementation address must be a contract to reach the role check
+    args: { upgradeToAndCall: contract => [getAddress(contract), "0x"] },
+  });
+
+  // the release file is written by `scripts/saveReleaseArtifact.ts`
+  // the token and the treasury are taken from the configured fixture of the outer `beforeEach()`
+  shouldUpgradeSafelyFromRelease("test/releases/AssetTransitDesk.json", {
+    initializerArgs: () => [getAddress(tokenMock)],
+    setUpState: async (released) => {
+      await proveTx(released.grantRole(GRANTOR_ROLE, deployer.address));
+      await proveTx(released.grantRole(MANAGER_ROLE, manager.address));
+      await proveTx(released.grantRole(PAUSER_ROLE, pauser.address));
+      await proveTx(released.setTreasury(getAddress(treasury)));
+      await proveTx(connect(tokenMock, account).approve(getAddress(released), BALANCE_INITIAL));
+      await proveTx(connect(released, manager).issueAsset(ethers.id("issuance"), account.address, 100n));
+      await proveTx(connect(released, manager).redeemAsset(ethers.id("redemption"), account.address, 100n, 10n));
+      await proveTx(connect(released, pauser).pause());
+    },
+    checkState: async (current) => {
+      expect(await current.paused()).to.equal(true);
+      expect(await current.hasRole(MANAGER_ROLE, manager.address)).to.equal(true);
+      expect(await current.hasRole(PAUSER_ROLE, pauser.address)).to.equal(true);
+      checkEquality(resultToObject(await current.getIssuanceOperation(ethers.id("issuance"))), {
+        status: OperationStatus.Successful,
+        buyer: account.address,
+        principalAmount: 100n,
+      });
+      checkEquality(resultToObject(await current.getRedemptionOperation(ethers.id("redemption"))), {
+        status: OperationStatus.Successful,
+        buyer: account.address,
+        principalAmount: 100n,
+        netYieldAmount: 10n,
+      });
+    },
+  });
 });
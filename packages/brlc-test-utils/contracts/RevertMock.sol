@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.30;
+
+/**
+ * @title RevertMock contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Reverts with the custom errors for the tests of the `revertWith` matcher.
+ */
+contract RevertMock {
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev Thrown if the amount exceeds the limit.
+    error AmountExcess(uint256 amount, uint256 limit);
+
+    /// @dev Thrown if the caller is not allowed to call the function.
+    error Unauthorized(address account);
+
+    // ------------------ Constants ------------------------------- //
+
+    /// @dev The maximum amount accepted by the `checkAmount()` function.
+    uint256 public constant AMOUNT_LIMIT = 100;
+
+    // ------------------ Pure functions -------------------------- //
+
+    function checkAmount(uint256 amount) external pure {
+        if (amount > AMOUNT_LIMIT) {
+            revert AmountExcess(amount, AMOUNT_LIMIT);
+        }
+    }
+
+    // ------------------ View functions -------------------------- //
+
+    function checkCaller() external view {
+        revert Unauthorized(msg.sender);
+    }
+}
+
+/**
+ * @title RevertMockOther contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev Declares the same error as `RevertMock` for the tests of the `revertWith` matcher.
+ */
+contract RevertMockOther {
+    // ------------------ Errors ---------------------------------- //
+
+    /// @dev Thrown if the caller is not allowed to call the function.
+    error Unauthorized(address account);
+}
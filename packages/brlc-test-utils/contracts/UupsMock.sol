@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity 0.8.30;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+
+/**
+ * @title UupsMock contract
+ * @author CloudWalk Inc. (See https://www.cloudwalk.io)
+ * @dev An upgradeable contract storing a value for the tests of the typed fixtures.
+ */
+contract UupsMock is Initializable, UUPSUpgradeable {
+    // ------------------ Storage --------------------------------- //
+
+    /// @dev The stored value.
+    uint256 public value;
+
+    // ------------------ Constructor ----------------------------- //
+
+    /**
+     * @dev Constructor that prohibits the initialization of the implementation of the upgradeable contract.
+     *
+     * @custom:oz-upgrades-unsafe-allow constructor
+     */
+    constructor() {
+        _disableInitializers();
+    }
+
+    // ------------------ Initializers ---------------------------- //
+
+    /**
+     * @dev Initializer of the upgradeable contract.
+     *
+     * @param value_ The initial value.
+     */
+    function initialize(uint256 value_) external initializer {
+        value = value_;
+    }
+
+    // ------------------ Transactional functions ----------------- //
+
+    function setValue(uint256 value_) external {
+        value = value_;
+    }
+
+    // ------------------ Internal functions ---------------------- //
+
+    /// @dev Allows anyone to upgrade the mock.
+    function _authorizeUpgrade(address) internal override {}
+}
@@ -0,0 +1,8 @@
+import "@nomicfoundation/hardhat-ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+import "@openzeppelin/hardhat-upgrades";
+
+// the config of the unit tests of the utilities, they run on the Hardhat network with the mocks of `contracts`
+export default {
+  solidity: "0.8.30",
+};
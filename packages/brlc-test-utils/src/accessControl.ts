@@ -0,0 +1,186 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { BaseContract, ErrorDescription, FunctionFragment, ParamType, ZeroAddress } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setUpFixture } from "./common";
+import { connect } from "./eth";
+
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+
+/**
+ * Function name or signature -> name of the role required to call the function, like in `ROLE_CONFIGURATION.md`.
+ * `null` means the function is not restricted by a fixed role, e.g. `initialize()` or `grantRole()`.
+ * A name covers all overloads of the function, a signature like `burn(uint256)` covers only one.
+ */
+export type AccessControlSpec = Record<string, string | null>;
+
+export interface AccessControlOptions {
+  // function name or signature -> arguments of the calls, zero values of the parameter types by default,
+  // a function receives the contract of the fixture, e.g. to pass the address of a deployed contract
+  args?: Record<string, unknown[] | ((contract: BaseContract) => unknown[])>;
+}
+
+/**
+ * Returns a signer that has the given role in the contract.
+ */
+export async function getAccountWithRole(contract: BaseContract, role: string): Promise<HardhatEthersSigner> {
+  for (const signer of await ethers.getSigners()) {
+    if (await connect(contract, signer).hasRole(role, signer.address)) {
+      return signer;
+    }
+  }
+  throw new Error("None of the signers has the role: " + role);
+}
+
+/**
+ * Returns a signer that does not have the given role in the contract.
+ */
+export async function getAccountWithoutRole(contract: BaseContract, role: string): Promise<HardhatEthersSigner> {
+  for (const signer of await ethers.getSigners()) {
+    if (!(await connect(contract, signer).hasRole(role, signer.address))) {
+      return signer;
+    }
+  }
+  throw new Error("All the signers have the role: " + role);
+}
+
+function getZeroValue(param: ParamType): unknown {
+  if (param.isArray()) {
+    return param.arrayLength > 0 ? Array(param.arrayLength).fill(getZeroValue(param.arrayChildren)) : [];
+  }
+  if (param.isTuple()) {
+    return param.components.map(getZeroValue);
+  }
+  if (param.baseType === "address") {
+    return ZeroAddress;
+  }
+  if (param.baseType === "bool") {
+    return false;
+  }
+  if (param.baseType === "string") {
+    return "";
+  }
+  if (param.baseType === "bytes") {
+    return "0x";
+  }
+  if (param.baseType.startsWith("bytes")) {
+    return ethers.zeroPadValue("0x", Number(param.baseType.slice("bytes".length)));
+  }
+  return 0n; // integers
+}
+
+function findSpecKey(keys: string[], fragment: FunctionFragment): string | undefined {
+  return keys.find(key => key === fragment.format("sighash")) ?? keys.find(key => key === fragment.name);
+}
+
+/**
+ * Calls the function without sending a transaction and returns the decoded custom error if the call is reverted.
+ */
+async function getCallError(
+  contract: BaseContract,
+  fragment: FunctionFragment,
+  args: unknown[],
+  caller: HardhatEthersSigner,
+): Promise<ErrorDescription | null | undefined> {
+  try {
+    await connect(contract, caller).getFunction(fragment).staticCall(...args);
+  } catch (error) {
+    const data = (error as { data?: string }).data;
+    return data ? contract.interface.parseError(data) : null;
+  }
+}
+
+/**
+ * Defines the tests checking the access control of a contract against the spec:
+ * every state-changing function of the ABI is in the spec, every restricted function is reverted
+ * with `AccessControlUnauthorizedAccount` for a caller without the required role and passes the role check
+ * for a caller with it. The calls are made with `eth_call`, so the state of the fixture is not changed.
+ * The fixture must grant every role of the spec to one of the Hardhat signers and keep another signer without it.
+ */
+export function shouldEnforceAccessControl(
+  getFixture: () => Promise<{ contract: BaseContract }>,
+  spec: AccessControlSpec,
+  options: AccessControlOptions = {},
+) {
+  const specKeys = Object.keys(spec);
+
+  describe("Access control", () => {
+    it("Every state-changing function is in the spec", async () => {
+      const { contract } = await setUpFixture(getFixture);
+      const signatures: string[] = [];
+      const missingFunctions: string[] = [];
+      contract.interface.forEachFunction((fragment) => {
+        signatures.push(fragment.format("sighash"));
+        if (!fragment.constant && !findSpecKey(specKeys, fragment)) {
+          missingFunctions.push(fragment.format("sighash"));
+        }
+      });
+      const unknownFunctions = specKeys.filter(key => !signatures.some(
+        signature => signature === key || signature.startsWith(key + "("),
+      ));
+
+      expect(missingFunctions).to.deep.equal([], "The functions are not in the access control spec");
+      expect(unknownFunctions).to.deep.equal([], "The functions of the spec are not in the contract ABI");
+    });
+
+    for (const [key, roleName] of Object.entries(spec)) {
+      if (roleName === null) {
+        continue;
+      }
+      const role = ethers.id(roleName);
+
+      describe(`Function '${key}' requires role '${roleName}'`, () => {
+        function getFragments(contract: BaseContract): FunctionFragment[] {
+          const fragments: FunctionFragment[] = [];
+          contract.interface.forEachFunction((fragment) => {
+            if (!fragment.constant && findSpecKey(specKeys, fragment) === key) {
+              fragments.push(fragment);
+            }
+          });
+          if (fragments.length === 0) {
+            throw new Error(`Function '${key}' is not found in the contract ABI`);
+          }
+          return fragments;
+        }
+
+        function getArgs(contract: BaseContract, fragment: FunctionFragment): unknown[] {
+          const args = options.args?.[fragment.format("sighash")] ?? options.args?.[fragment.name];
+          if (typeof args === "function") {
+            return args(contract);
+          }
+          return args ?? fragment.inputs.map(getZeroValue);
+        }
+
+        it("Is reverted if the caller does not have the role", async () => {
+          const { contract } = await setUpFixture(getFixture);
+          const stranger = await getAccountWithoutRole(contract, role);
+          for (const fragment of getFragments(contract)) {
+            const error = await getCallError(contract, fragment, getArgs(contract, fragment), stranger);
+            const signature = fragment.format("sighash");
+
+            expect(error?.name).to.equal(
+              ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT,
+              `The call of '${signature}' by an account without the role is not reverted due to the missing role`,
+            );
+            expect(error?.args.toArray()).to.deep.equal([stranger.address, role]);
+          }
+        });
+
+        it("Passes the role check if the caller has the role", async () => {
+          const { contract } = await setUpFixture(getFixture);
+          const roleHolder = await getAccountWithRole(contract, role);
+          for (const fragment of getFragments(contract)) {
+            // the call can be reverted for other reasons, e.g. due to the zero arguments
+            const error = await getCallError(contract, fragment, getArgs(contract, fragment), roleHolder);
+            const signature = fragment.format("sighash");
+
+            expect(error?.name).not.to.equal(
+              ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT,
+              `The call of '${signature}' by an account with the role is reverted due to a missing role`,
+            );
+          }
+        });
+      });
+    }
+  });
+}
@@ -0,0 +1,173 @@
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import chai from "chai";
+import { Addressable, BigNumberish, Contract, isAddress, resolveAddress, TransactionResponse } from "ethers";
+
+/**
+ * An address, a contract, a signer or a label given in the options of the matcher.
+ */
+export type BalanceHolder = Addressable | string;
+
+type HolderBalanceChanges = Map<BalanceHolder, BigNumberish> | Record<string, BigNumberish>;
+
+/**
+ * Token -> holder -> expected balance change. The keys of the objects are addresses or labels,
+ * the keys of the maps can be contracts and signers too.
+ */
+export type ExpectedBalanceChanges =
+  Record<string, Record<string, BigNumberish>> | Map<BalanceHolder, HolderBalanceChanges>;
+
+export interface BalanceChangesOptions {
+  labels?: Record<string, BalanceHolder>; // label -> token or holder, e.g. `{ BRLC: tokenMock, alice }`
+  strict?: boolean; // every holder of the check and of the labels must not change the balances not listed for it
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  export namespace Chai {
+    interface Assertion {
+      changeBalances(expectedChanges: ExpectedBalanceChanges, options?: BalanceChangesOptions): AsyncAssertion;
+    }
+  }
+}
+
+interface BalanceChangeRow {
+  token: string;
+  holder: string;
+  expected: bigint;
+  actual: bigint;
+}
+
+const TOKEN_ABI = [
+  "function balanceOf(address) view returns (uint256)",
+  "function symbol() view returns (string)",
+];
+
+function toEntries<T>(value: Map<BalanceHolder, T> | Record<string, T>): [BalanceHolder, T][] {
+  return value instanceof Map ? [...value.entries()] : Object.entries(value);
+}
+
+async function resolveHolder(
+  holder: BalanceHolder,
+  labels: Record<string, BalanceHolder>,
+): Promise<{ address: string; name: string }> {
+  if (typeof holder === "string" && !isAddress(holder)) {
+    const labeled = labels[holder];
+    if (labeled === undefined) {
+      throw new Error(`"${holder}" is neither an address nor a label given in the options of 'changeBalances'`);
+    }
+    return { address: await resolveAddress(labeled), name: holder };
+  }
+  const address = await resolveAddress(holder);
+  const label = Object.keys(labels).find(key => labels[key] === holder || labels[key] === address);
+  return { address, name: label ?? address };
+}
+
+async function getTokenName(token: Contract, name: string, address: string): Promise<string> {
+  if (name !== address) {
+    return name;
+  }
+  try {
+    return await token.symbol();
+  } catch {
+    return address;
+  }
+}
+
+function formatTable(rows: BalanceChangeRow[]): string {
+  const header = ["Token", "Holder", "Expected", "Actual", ""];
+  const lines = rows.map(row => [
+    row.token,
+    row.holder,
+    row.expected.toString(),
+    row.actual.toString(),
+    row.expected === row.actual ? "" : "<- mismatch",
+  ]);
+  const widths = header.map((title, index) => Math.max(title.length, ...lines.map(line => line[index].length)));
+  return [header, ...lines]
+    .map(line => line.map((cell, index) => cell.padEnd(widths[index])).join("  ").trimEnd())
+    .join("\n");
+}
+
+/**
+ * Checks the balance changes of several tokens and holders made by a transaction
+ * by comparing the balances at the block of the transaction and at the previous one.
+ */
+async function checkBalanceChanges(
+  subject: TransactionResponse | Promise<TransactionResponse>,
+  expectedChanges: ExpectedBalanceChanges,
+  options: BalanceChangesOptions,
+) {
+  const labels = options.labels ?? {};
+  const receipt = await (await subject).wait();
+  if (!receipt) {
+    throw new Error("The transaction receipt is empty");
+  }
+
+  const tokens: { contract: Contract; name: string; changes: Map<string, bigint> }[] = [];
+  const allHolders = new Map<string, string>(); // address -> name
+  for (const [tokenKey, holderChanges] of toEntries(expectedChanges)) {
+    const token = await resolveHolder(tokenKey, labels);
+    const contract = new Contract(token.address, TOKEN_ABI, ethers.provider);
+    const changes = new Map<string, bigint>();
+    for (const [holderKey, change] of toEntries(holderChanges)) {
+      const holder = await resolveHolder(holderKey, labels);
+      changes.set(holder.address, BigInt(change));
+      allHolders.set(holder.address, holder.name);
+    }
+    tokens.push({ contract, name: await getTokenName(contract, token.name, token.address), changes });
+  }
+  if (options.strict) {
+    const tokenAddresses = tokens.map(token => token.contract.target);
+    for (const holder of Object.keys(labels)) {
+      const { address, name } = await resolveHolder(holder, labels);
+      if (!tokenAddresses.includes(address)) {
+        allHolders.set(address, name);
+      }
+    }
+  }
+
+  const rows: BalanceChangeRow[] = [];
+  for (const token of tokens) {
+    const holders = options.strict ? [...allHolders.keys()] : [...token.changes.keys()];
+    for (const address of holders) {
+      const balanceBefore: bigint = await token.contract.balanceOf(address, { blockTag: receipt.blockNumber - 1 });
+      const balanceAfter: bigint = await token.contract.balanceOf(address, { blockTag: receipt.blockNumber });
+      rows.push({
+        token: token.name,
+        holder: allHolders.get(address) ?? address,
+        expected: token.changes.get(address) ?? 0n,
+        actual: balanceAfter - balanceBefore,
+      });
+    }
+  }
+
+  if (rows.some(row => row.expected !== row.actual)) {
+    throw new chai.AssertionError(`Expected the balances to change as follows:\n${formatTable(rows)}`);
+  }
+}
+
+chai.use((chaiInstance) => {
+  chaiInstance.Assertion.addMethod(
+    "changeBalances",
+    function (
+      this: Chai.AssertionStatic,
+      expectedChanges: ExpectedBalanceChanges,
+      options: BalanceChangesOptions = {},
+    ) {
+      if (chaiInstance.util.flag(this, "negate")) {
+        throw new Error("The 'changeBalances' matcher does not support negation");
+      }
+      let subject = this._obj;
+      if (typeof subject === "function") {
+        subject = subject();
+      }
+      const derivedPromise = checkBalanceChanges(subject, expectedChanges, options);
+      Object.assign(this, {
+        then: derivedPromise.then.bind(derivedPromise),
+        catch: derivedPromise.catch.bind(derivedPromise),
+      });
+      return this;
+    },
+  );
+});
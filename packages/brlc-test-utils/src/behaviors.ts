@@ -0,0 +1,182 @@
+import "@nomicfoundation/hardhat-chai-matchers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { BaseContract, Contract } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { getAccountWithoutRole } from "./accessControl";
+import { setUpFixture } from "./common";
+import { connect, getAddress, proveTx } from "./eth";
+
+// Events of the base contracts
+const EVENT_NAME_PAUSED = "Paused";
+const EVENT_NAME_UNPAUSED = "Unpaused";
+const EVENT_NAME_TRANSFER = "Transfer";
+
+// Errors of the base contracts
+const ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT = "AccessControlUnauthorizedAccount";
+const ERROR_NAME_ENFORCED_PAUSE = "EnforcedPause";
+const ERROR_NAME_EXPECTED_PAUSE = "ExpectedPause";
+
+export interface PausableExtFixture {
+  contract: BaseContract;
+  pauser: HardhatEthersSigner; // an account with the pauser role
+}
+
+export interface PausableExtBehaviorOptions {
+  pauserRole?: string; // the role name, "PAUSER_ROLE" by default
+  adminRole?: string; // the name of the admin role of the pauser role, "GRANTOR_ROLE" by default
+  // function name -> call of the function that must be reverted while the contract is paused
+  pausedFunctions?: Record<string, (contract: Contract) => Promise<unknown>>;
+}
+
+export interface RescuableFixture {
+  contract: BaseContract;
+  rescuer: HardhatEthersSigner; // an account with the rescuer role
+  token: BaseContract; // an ERC20 token with a non-zero balance of the contract
+}
+
+export interface RescuableBehaviorOptions {
+  rescuerRole?: string; // the role name, "RESCUER_ROLE" by default
+  adminRole?: string; // the name of the admin role of the rescuer role, "GRANTOR_ROLE" by default
+}
+
+/**
+ * Defines the tests of a contract inherited from `PausableExtUpgradeable` or `PausableEnumerableExtUpgradeable`:
+ * pausing and unpausing by the pauser, the custom errors for other accounts and wrong states,
+ * and, optionally, the functions that must be reverted while the contract is paused.
+ * Call it inside the `describe()` block of the contract with its own fixture.
+ */
+export function shouldBehaveLikePausableExt(
+  getFixture: () => Promise<PausableExtFixture>,
+  options: PausableExtBehaviorOptions = {},
+) {
+  const pauserRole = ethers.id(options.pauserRole ?? "PAUSER_ROLE");
+  const adminRole = ethers.id(options.adminRole ?? "GRANTOR_ROLE");
+
+  describe("Behaves like 'PausableExtUpgradeable'", () => {
+    it("The pauser role is configured as expected", async () => {
+      const { contract, pauser } = await setUpFixture(getFixture);
+      expect(await connect(contract, pauser).getRoleAdmin(pauserRole)).to.equal(adminRole);
+      expect(await connect(contract, pauser).hasRole(pauserRole, pauser.address)).to.equal(true);
+    });
+
+    describe("Function 'pause()'", () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract, pauser } = await setUpFixture(getFixture);
+
+        await expect(connect(contract, pauser).pause())
+          .to.emit(contract, EVENT_NAME_PAUSED)
+          .withArgs(pauser.address);
+
+        expect(await connect(contract, pauser).paused()).to.equal(true);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract } = await setUpFixture(getFixture);
+        const stranger = await getAccountWithoutRole(contract, pauserRole);
+
+        await expect(connect(contract, stranger).pause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, pauserRole);
+      });
+
+      it("Is reverted if the contract is already paused", async () => {
+        const { contract, pauser } = await setUpFixture(getFixture);
+        await proveTx(connect(contract, pauser).pause());
+
+        await expect(connect(contract, pauser).pause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ENFORCED_PAUSE);
+      });
+    });
+
+    describe("Function 'unpause()'", () => {
+      it("Executes successfully and emits the correct event", async () => {
+        const { contract, pauser } = await setUpFixture(getFixture);
+        await proveTx(connect(contract, pauser).pause());
+
+        await expect(connect(contract, pauser).unpause())
+          .to.emit(contract, EVENT_NAME_UNPAUSED)
+          .withArgs(pauser.address);
+
+        expect(await connect(contract, pauser).paused()).to.equal(false);
+      });
+
+      it("Is reverted if the caller does not have the pauser role", async () => {
+        const { contract, pauser } = await setUpFixture(getFixture);
+        await proveTx(connect(contract, pauser).pause());
+        const stranger = await getAccountWithoutRole(contract, pauserRole);
+
+        await expect(connect(contract, stranger).unpause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, pauserRole);
+      });
+
+      it("Is reverted if the contract is not paused", async () => {
+        const { contract, pauser } = await setUpFixture(getFixture);
+
+        await expect(connect(contract, pauser).unpause())
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_EXPECTED_PAUSE);
+      });
+    });
+
+    const pausedFunctions = Object.entries(options.pausedFunctions ?? {});
+    if (pausedFunctions.length > 0) {
+      describe("Functions that are not allowed while the contract is paused", () => {
+        for (const [functionName, call] of pausedFunctions) {
+          it(`Function '${functionName}' is reverted if the contract is paused`, async () => {
+            const { contract, pauser } = await setUpFixture(getFixture);
+            await proveTx(connect(contract, pauser).pause());
+
+            await expect(call(contract as Contract))
+              .to.be.revertedWithCustomError(contract, ERROR_NAME_ENFORCED_PAUSE);
+          });
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Defines the tests of a contract inherited from `RescuableUpgradeable` or `RescuableEnumerableUpgradeable`:
+ * rescuing the whole token balance of the contract by the rescuer and the custom error for other accounts.
+ * Call it inside the `describe()` block of the contract with its own fixture.
+ */
+export function shouldBehaveLikeRescuable(
+  getFixture: () => Promise<RescuableFixture>,
+  options: RescuableBehaviorOptions = {},
+) {
+  const rescuerRole = ethers.id(options.rescuerRole ?? "RESCUER_ROLE");
+  const adminRole = ethers.id(options.adminRole ?? "GRANTOR_ROLE");
+
+  describe("Behaves like 'RescuableUpgradeable'", () => {
+    it("The rescuer role is configured as expected", async () => {
+      const { contract, rescuer } = await setUpFixture(getFixture);
+      expect(await connect(contract, rescuer).getRoleAdmin(rescuerRole)).to.equal(adminRole);
+      expect(await connect(contract, rescuer).hasRole(rescuerRole, rescuer.address)).to.equal(true);
+    });
+
+    describe("Function 'rescueERC20()'", () => {
+      it("Executes as expected and emits the correct event", async () => {
+        const { contract, rescuer, token } = await setUpFixture(getFixture);
+        const recipient = await getAccountWithoutRole(contract, rescuerRole);
+        const amount: bigint = await connect(token, rescuer).balanceOf(getAddress(contract));
+        expect(amount).to.be.greaterThan(0n, "The contract must have a balance of the token in the fixture");
+
+        const tx = connect(contract, rescuer).rescueERC20(getAddress(token), recipient.address, amount);
+        await expect(tx).to.changeTokenBalances(token, [contract, recipient, rescuer], [-amount, amount, 0n]);
+        await expect(tx)
+          .to.emit(token, EVENT_NAME_TRANSFER)
+          .withArgs(getAddress(contract), recipient.address, amount);
+      });
+
+      it("Is reverted if the caller does not have the rescuer role", async () => {
+        const { contract, token } = await setUpFixture(getFixture);
+        const stranger = await getAccountWithoutRole(contract, rescuerRole);
+
+        await expect(connect(contract, stranger).rescueERC20(getAddress(token), stranger.address, 1n))
+          .to.be.revertedWithCustomError(contract, ERROR_NAME_ACCESS_CONTROL_UNAUTHORIZED_ACCOUNT)
+          .withArgs(stranger.address, rescuerRole);
+      });
+    });
+  });
+}
@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import { Clock, getClockAdapter, hardhatClockAdapter, stratusClockAdapter } from "./clock";
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+const NEGATIVE_TIME_OFFSET = 3 * HOUR;
+
+function createRpcRecorder() {
+  const calls: [string, unknown[]][] = [];
+  const rpc = async (method: string, params: unknown[]) => {
+    calls.push([method, params]);
+    return "0x1";
+  };
+  return { calls, rpc };
+}
+
+describe("clock", () => {
+  describe("Clock period arithmetic", () => {
+    const clock = new Clock(stratusClockAdapter(), { negativeTimeOffset: NEGATIVE_TIME_OFFSET });
+
+    it("shifts the period boundaries by the negative time offset", () => {
+      expect(clock.toPeriodIndex(10 * DAY + NEGATIVE_TIME_OFFSET)).to.equal(10);
+      expect(clock.toPeriodIndex(10 * DAY + NEGATIVE_TIME_OFFSET - 1)).to.equal(9);
+      expect(clock.toPeriodStart(10)).to.equal(10 * DAY + NEGATIVE_TIME_OFFSET);
+      expect(clock.secondsOfPeriod(10 * DAY + NEGATIVE_TIME_OFFSET - 1)).to.equal(DAY - 1);
+    });
+
+    it("uses the custom period duration", () => {
+      const hourlyClock = new Clock(stratusClockAdapter(), { periodDuration: HOUR });
+
+      expect(hourlyClock.toPeriodIndex(5 * HOUR + 59)).to.equal(5);
+      expect(hourlyClock.secondsOfPeriod(5 * HOUR + 59)).to.equal(59);
+    });
+  });
+
+  describe("Clock on the Hardhat network", () => {
+    it("moves the time to the given period and reverts the snapshot", async () => {
+      const clock = await Clock.create({ negativeTimeOffset: NEGATIVE_TIME_OFFSET });
+      const snapshot = await clock.snapshot();
+      const periodIndex = await clock.currentPeriodIndex();
+
+      await clock.increasePeriods(2, HOUR);
+
+      expect(await clock.now()).to.equal(clock.toPeriodStart(periodIndex + 2) + HOUR);
+      expect(snapshot.supported).to.equal(true);
+      expect(await snapshot.revert()).to.equal(true);
+      expect(await clock.currentPeriodIndex()).to.equal(periodIndex);
+    });
+  });
+
+  describe("Adapters", () => {
+    it("chooses the adapter by the network name", async () => {
+      expect((await getClockAdapter("hardhat")).name).to.equal("hardhat");
+      expect((await getClockAdapter("stratus")).name).to.equal("stratus");
+      expect((await getClockAdapter("anvil")).name).to.equal("anvil");
+      // the client of other networks is detected by its version
+      expect((await getClockAdapter("localhost")).name).to.equal("hardhat");
+    });
+
+    it("sends the Hardhat methods", async () => {
+      const { calls, rpc } = createRpcRecorder();
+      const adapter = hardhatClockAdapter(rpc);
+
+      await adapter.mine(100);
+      await adapter.mineBlocks(16);
+
+      expect(calls).to.deep.equal([
+        ["evm_setNextBlockTimestamp", ["0x64"]],
+        ["evm_mine", []],
+        ["hardhat_mine", ["0x10"]],
+      ]);
+    });
+
+    it("mines the blocks one by one and does not support snapshots on Stratus", async () => {
+      const { calls, rpc } = createRpcRecorder();
+      const clock = new Clock(stratusClockAdapter(rpc));
+
+      await clock.mine(2);
+      const snapshot = await clock.snapshot();
+
+      expect(calls).to.deep.equal([["evm_mine", []], ["evm_mine", []]]);
+      expect(snapshot.supported).to.equal(false);
+      expect(await snapshot.revert()).to.equal(false);
+    });
+  });
+});
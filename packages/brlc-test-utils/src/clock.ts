@@ -0,0 +1,238 @@
+import { ethers, network } from "hardhat";
+import { toQuantity } from "ethers";
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Controls the time and the blocks of a particular network client through its RPC methods.
+ */
+export interface ClockAdapter {
+  name: string;
+  // mines a block with the given timestamp or with the next one if undefined
+  mine(timestamp?: number): Promise<void>;
+  mineBlocks(count: number): Promise<void>;
+  setAutomine(enabled: boolean): Promise<void>;
+  // returns undefined if snapshots are not supported
+  snapshot(): Promise<string | undefined>;
+  revert(snapshotId: string): Promise<void>;
+}
+
+type RpcSend = (method: string, params: unknown[]) => Promise<unknown>;
+
+function send(method: string, params: unknown[]): Promise<unknown> {
+  return ethers.provider.send(method, params);
+}
+
+/**
+ * The adapter of the Hardhat network.
+ */
+export function hardhatClockAdapter(rpc: RpcSend = send): ClockAdapter {
+  return {
+    name: "hardhat",
+    async mine(timestamp) {
+      if (timestamp !== undefined) {
+        await rpc("evm_setNextBlockTimestamp", [toQuantity(timestamp)]);
+      }
+      await rpc("evm_mine", []);
+    },
+    async mineBlocks(count) {
+      await rpc("hardhat_mine", [toQuantity(count)]);
+    },
+    async setAutomine(enabled) {
+      await rpc("evm_setAutomine", [enabled]);
+    },
+    async snapshot() {
+      return String(await rpc("evm_snapshot", []));
+    },
+    async revert(snapshotId) {
+      await rpc("evm_revert", [snapshotId]);
+    },
+  };
+}
+
+/**
+ * The adapter of anvil, it supports the same methods as Hardhat except mining of several blocks.
+ */
+export function anvilClockAdapter(rpc: RpcSend = send): ClockAdapter {
+  return {
+    ...hardhatClockAdapter(rpc),
+    name: "anvil",
+    async mineBlocks(count) {
+      await rpc("anvil_mine", [toQuantity(count)]);
+    },
+  };
+}
+
+/**
+ * The adapter of Stratus. It does not support snapshots and switching the mining mode,
+ * which is set when the node is started.
+ */
+export function stratusClockAdapter(rpc: RpcSend = send): ClockAdapter {
+  return {
+    name: "stratus",
+    async mine(timestamp) {
+      if (timestamp !== undefined) {
+        await rpc("evm_setNextBlockTimestamp", [timestamp]);
+      }
+      await rpc("evm_mine", []);
+    },
+    async mineBlocks(count) {
+      for (let i = 0; i < count; ++i) {
+        await rpc("evm_mine", []);
+      }
+    },
+    async setAutomine() {
+      throw new Error("Switching the mining mode is not supported on Stratus, it is set when the node is started");
+    },
+    async snapshot() {
+      return undefined;
+    },
+    async revert() {
+      throw new Error("Snapshots are not supported on Stratus");
+    },
+  };
+}
+
+/**
+ * Chooses the adapter by the name of the current network: `hardhat`, `stratus` or `anvil`.
+ * For other names the client is detected by its `web3_clientVersion`, e.g. for a local anvil node named `localhost`.
+ */
+export async function getClockAdapter(networkName: string = network.name): Promise<ClockAdapter> {
+  if (networkName === "hardhat") {
+    return hardhatClockAdapter();
+  }
+  if (networkName === "stratus") {
+    return stratusClockAdapter();
+  }
+  if (networkName === "anvil") {
+    return anvilClockAdapter();
+  }
+  const clientVersion = String(await send("web3_clientVersion", []).catch(() => "")).toLowerCase();
+  if (clientVersion.startsWith("hardhatnetwork")) {
+    return hardhatClockAdapter();
+  }
+  if (clientVersion.startsWith("anvil")) {
+    return anvilClockAdapter();
+  }
+  if (clientVersion.includes("stratus")) {
+    return stratusClockAdapter();
+  }
+  throw new Error(`Controlling the time of the current blockchain is not supported: ${networkName}`);
+}
+
+export interface ClockOptions {
+  // the negative time offset of the contract in seconds, e.g. `NEGATIVE_TIME_SHIFT` of 3 hours, 0 by default
+  negativeTimeOffset?: number;
+  // the duration of a period in seconds, a day by default
+  periodDuration?: number;
+}
+
+/**
+ * A snapshot of the blockchain state taken by a clock.
+ */
+export interface ClockSnapshot {
+  supported: boolean;
+  // restores the state and returns true, or returns false if snapshots are not supported by the network
+  revert(): Promise<boolean>;
+}
+
+/**
+ * Moves the blockchain time and converts timestamps to the indexes of periods, like days,
+ * the same way the contracts do with their negative time offset: `index = floor((timestamp - offset) / duration)`.
+ */
+export class Clock {
+  readonly negativeTimeOffset: number;
+  readonly periodDuration: number;
+
+  constructor(readonly adapter: ClockAdapter, options: ClockOptions = {}) {
+    this.negativeTimeOffset = options.negativeTimeOffset ?? 0;
+    this.periodDuration = options.periodDuration ?? DAY_IN_SECONDS;
+  }
+
+  /**
+   * Creates a clock with the adapter of the current network.
+   */
+  static async create(options: ClockOptions = {}): Promise<Clock> {
+    return new Clock(await getClockAdapter(), options);
+  }
+
+  /**
+   * Returns the timestamp of the latest block.
+   */
+  async now(): Promise<number> {
+    const block = await ethers.provider.getBlock("latest");
+    return block?.timestamp ?? 0;
+  }
+
+  toPeriodIndex(timestamp: number): number {
+    return Math.floor((timestamp - this.negativeTimeOffset) / this.periodDuration);
+  }
+
+  toPeriodStart(periodIndex: number): number {
+    return periodIndex * this.periodDuration + this.negativeTimeOffset;
+  }
+
+  // the number of seconds passed since the start of the period of the timestamp
+  secondsOfPeriod(timestamp: number): number {
+    return timestamp - this.toPeriodStart(this.toPeriodIndex(timestamp));
+  }
+
+  async currentPeriodIndex(): Promise<number> {
+    return this.toPeriodIndex(await this.now());
+  }
+
+  /**
+   * Mines a block with the given timestamp, which must be greater than the latest block timestamp.
+   */
+  async increaseTo(timestamp: number | bigint) {
+    await this.adapter.mine(Number(timestamp));
+  }
+
+  async increase(seconds: number) {
+    await this.increaseTo((await this.now()) + seconds);
+  }
+
+  /**
+   * Mines a block at the given number of seconds since the start of the period.
+   */
+  async increaseToPeriod(periodIndex: number, secondsOfPeriod = 0) {
+    await this.increaseTo(this.toPeriodStart(periodIndex) + secondsOfPeriod);
+  }
+
+  /**
+   * Mines a block at the given number of seconds since the start of the period that is `count` periods after
+   * the current one, e.g. `increasePeriods(1)` moves to the start of the next day.
+   */
+  async increasePeriods(count: number, secondsOfPeriod = 0) {
+    await this.increaseToPeriod((await this.currentPeriodIndex()) + count, secondsOfPeriod);
+  }
+
+  async mine(blocks = 1) {
+    await this.adapter.mineBlocks(blocks);
+  }
+
+  /**
+   * Enables or disables the automatic mining, e.g. to put several transactions into one block.
+   */
+  async setAutomine(enabled: boolean) {
+    await this.adapter.setAutomine(enabled);
+  }
+
+  /**
+   * Takes a snapshot of the blockchain state. On networks without snapshots, like Stratus,
+   * the snapshot is not supported and its `revert()` does nothing, so the tests must not rely on it there.
+   */
+  async snapshot(): Promise<ClockSnapshot> {
+    const snapshotId = await this.adapter.snapshot();
+    return {
+      supported: snapshotId !== undefined,
+      revert: async () => {
+        if (snapshotId === undefined) {
+          return false;
+        }
+        await this.adapter.revert(snapshotId);
+        return true;
+      },
+    };
+  }
+}
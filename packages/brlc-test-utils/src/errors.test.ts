@@ -0,0 +1,97 @@
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { Contract, Interface } from "ethers";
+import { decodeRevertData } from "./errors";
+
+const ERRORS = new Interface([
+  "error Error(string message)",
+  "error Panic(uint256 code)",
+  "error NotDeclared(uint256 amount)",
+  "error Unauthorized(address account)",
+]);
+
+async function getErrorMessage(promise: PromiseLike<unknown>): Promise<string | undefined> {
+  return Promise.resolve(promise).then(() => undefined, (error: Error) => error.message);
+}
+
+describe("errors", () => {
+  describe("decodeRevertData()", () => {
+    it("returns nothing for the revert data without a selector", async () => {
+      expect(await decodeRevertData("0x")).to.equal(undefined);
+      expect(await decodeRevertData("0x1234")).to.equal(undefined);
+    });
+
+    it("decodes the standard errors", async () => {
+      expect(await decodeRevertData(ERRORS.encodeErrorResult("Error", ["Not enough balance"]))).to.deep.equal({
+        name: "Error",
+        signature: "Error(string)",
+        args: ["Not enough balance"],
+        contracts: [],
+      });
+      expect(await decodeRevertData(ERRORS.encodeErrorResult("Panic", [0x11]))).to.deep.equal({
+        name: "Panic",
+        signature: "Panic(uint256)",
+        args: [0x11n],
+        contracts: [],
+      });
+    });
+
+    it("returns nothing for the custom errors that are not declared in the compiled contracts", async () => {
+      expect(await decodeRevertData(ERRORS.encodeErrorResult("NotDeclared", [1]))).to.equal(undefined);
+    });
+
+    it("decodes the custom errors with the contracts declaring them", async () => {
+      const account = "0x00000000000000000000000000000000000000A1";
+
+      expect(await decodeRevertData(ERRORS.encodeErrorResult("Unauthorized", [account]))).to.deep.equal({
+        name: "Unauthorized",
+        signature: "Unauthorized(address)",
+        args: [account],
+        contracts: ["RevertMock", "RevertMockOther"],
+      });
+    });
+  });
+
+  describe("revertWith", () => {
+    let revertMock: Contract;
+
+    before(async () => {
+      revertMock = await ethers.deployContract("RevertMock");
+    });
+
+    it("passes for the custom error with the expected name, signature and arguments", async () => {
+      const [caller] = await ethers.getSigners();
+
+      await expect(revertMock.checkAmount(101)).to.revertWith("AmountExcess", [101, 100n]);
+      await expect(revertMock.checkAmount(101)).to.revertWith("AmountExcess(uint256,uint256)");
+      // the addresses are compared case-insensitively
+      await expect(revertMock.checkCaller()).to.revertWith("Unauthorized", [caller.address.toLowerCase()]);
+    });
+
+    it("fails for another error with the contracts declaring it", async () => {
+      const [caller] = await ethers.getSigners();
+
+      expect(await getErrorMessage(expect(revertMock.checkCaller()).to.revertWith("AmountExcess"))).to.equal(
+        "Expected the transaction to be reverted with 'AmountExcess', but it was reverted with " +
+        `'Unauthorized("${caller.address}")' declared in RevertMock, RevertMockOther`,
+      );
+    });
+
+    it("fails for the wrong arguments", async () => {
+      expect(await getErrorMessage(expect(revertMock.checkAmount(101)).to.revertWith("AmountExcess", [101, 99])))
+        .to.contain("The arguments of the error 'AmountExcess(101, 100)' declared in RevertMock are wrong");
+    });
+
+    it("fails if the transaction is not reverted", async () => {
+      expect(await getErrorMessage(expect(revertMock.checkAmount(100)).to.revertWith("AmountExcess"))).to.equal(
+        "Expected the transaction to be reverted with 'AmountExcess', but it was not reverted",
+      );
+    });
+
+    it("throws for an error that is not declared in any compiled contract", async () => {
+      expect(await getErrorMessage(expect(revertMock.checkAmount(101)).to.revertWith("NotDeclared"))).to.equal(
+        "The custom error 'NotDeclared' is not declared in any compiled contract",
+      );
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import fs from "node:fs";
+import path from "node:path";
+import { artifacts, config } from "hardhat";
+import chai from "chai";
+import { ErrorFragment, Interface, isHexString, Result } from "ethers";
+
+/**
+ * A custom error of the compiled contracts with the names of the contracts that declare it.
+ */
+export interface RegisteredError {
+  fragment: ErrorFragment;
+  contracts: string[];
+}
+
+/**
+ * A revert decoded against the error registry.
+ */
+export interface DecodedRevert {
+  name: string;
+  signature: string;
+  args: unknown[];
+  contracts: string[]; // the contracts declaring the error, empty for `Error(string)` and `Panic(uint256)`
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  export namespace Chai {
+    interface Assertion {
+      revertWith(error: string, args?: unknown[]): AsyncAssertion;
+    }
+  }
+}
+
+interface ArtifactAbi {
+  contractName: string;
+  abi: unknown[];
+}
+
+const STANDARD_ERRORS = new Interface(["error Error(string message)", "error Panic(uint256 code)"]);
+
+// signature -> error, built once per test run
+let errorRegistry: Map<string, RegisteredError> | undefined;
+
+function readArtifactFiles(directory: string): ArtifactAbi[] {
+  const result: ArtifactAbi[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory() && entry.name !== "build-info") {
+      result.push(...readArtifactFiles(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith(".json") && !entry.name.endsWith(".dbg.json")) {
+      const artifact = JSON.parse(fs.readFileSync(entryPath, "utf8"));
+      if (Array.isArray(artifact.abi)) {
+        result.push(artifact);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads the artifacts of the workspace packages the current package depends on, if they are compiled.
+ */
+function readWorkspaceDependencyArtifacts(): ArtifactAbi[] {
+  const root = config.paths.root;
+  const packageJson = JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf8"));
+  const dependencies: Record<string, string> = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  const result: ArtifactAbi[] = [];
+  for (const [name, version] of Object.entries(dependencies)) {
+    if (!version.startsWith("workspace:")) {
+      continue;
+    }
+    const artifactsDir = path.join(root, "node_modules", name, "artifacts");
+    if (fs.existsSync(artifactsDir)) {
+      result.push(...readArtifactFiles(artifactsDir));
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the custom errors of all compiled contracts of the package and of its workspace dependencies.
+ */
+export async function getErrorRegistry(): Promise<Map<string, RegisteredError>> {
+  if (errorRegistry) {
+    return errorRegistry;
+  }
+  const contractArtifacts: ArtifactAbi[] = [];
+  for (const name of await artifacts.getAllFullyQualifiedNames()) {
+    contractArtifacts.push(await artifacts.readArtifact(name));
+  }
+  contractArtifacts.push(...readWorkspaceDependencyArtifacts());
+
+  const registry = new Map<string, RegisteredError>();
+  for (const artifact of contractArtifacts) {
+    new Interface(artifact.abi as string[]).forEachError((fragment) => {
+      const signature = fragment.format("sighash");
+      const registered = registry.get(signature) ?? { fragment, contracts: [] };
+      if (!registered.contracts.includes(artifact.contractName)) {
+        registered.contracts.push(artifact.contractName);
+      }
+      registry.set(signature, registered);
+    });
+  }
+  errorRegistry = registry;
+  return registry;
+}
+
+/**
+ * Decodes revert data with the standard errors and the custom errors of the registry.
+ */
+export async function decodeRevertData(data: string): Promise<DecodedRevert | undefined> {
+  // no selector, e.g. a bare `revert()` or a `require()` without a message
+  if (data.length < 10) {
+    return undefined;
+  }
+  const standardError = STANDARD_ERRORS.parseError(data);
+  if (standardError) {
+    const { name, signature, args } = standardError;
+    return { name, signature, args: args.toArray(), contracts: [] };
+  }
+  for (const { fragment, contracts } of (await getErrorRegistry()).values()) {
+    if (data.startsWith(fragment.selector)) {
+      const args = Interface.from([fragment]).decodeErrorResult(fragment, data);
+      return { name: fragment.name, signature: fragment.format("sighash"), args: args.toArray(), contracts };
+    }
+  }
+}
+
+/**
+ * Finds the revert data in an error thrown by ethers or by the Hardhat provider.
+ */
+function getRevertData(error: unknown): string | undefined {
+  const candidates = [error];
+  while (candidates.length > 0) {
+    const candidate = candidates.shift() as Record<string, unknown> | undefined;
+    if (typeof candidate !== "object" || candidate === null) {
+      continue;
+    }
+    if (typeof candidate.data === "string" && isHexString(candidate.data)) {
+      return candidate.data;
+    }
+    candidates.push(candidate.error, candidate.cause, (candidate.info as Record<string, unknown> | undefined)?.error);
+  }
+}
+
+function normalizeArg(value: unknown): unknown {
+  if (value instanceof Result) {
+    return normalizeArg(value.toArray());
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeArg);
+  }
+  if (typeof value === "number") {
+    return BigInt(value);
+  }
+  if (typeof value === "string" && isHexString(value)) {
+    return value.toLowerCase();
+  }
+  return value;
+}
+
+function formatRevert(revert: DecodedRevert): string {
+  const args = revert.args.map(arg => (typeof arg === "string" ? `"${arg}"` : String(arg))).join(", ");
+  const declaredIn = revert.contracts.length > 0 ? ` declared in ${revert.contracts.join(", ")}` : "";
+  return `'${revert.name}(${args})'${declaredIn}`;
+}
+
+/**
+ * Returns the revert data of a failed transaction or call, undefined if it succeeded.
+ * Errors without revert data, e.g. network errors, are rethrown.
+ */
+async function getSubjectRevertData(subject: Promise<unknown>): Promise<string | undefined> {
+  try {
+    const result = await subject;
+    // a sent transaction can be reverted when it is mined, e.g. on networks without the automatic mining
+    if (typeof (result as { wait?: unknown } | undefined)?.wait === "function") {
+      await (result as { wait(): Promise<unknown> }).wait();
+    }
+  } catch (thrown) {
+    const revertData = getRevertData(thrown);
+    if (revertData === undefined) {
+      throw thrown;
+    }
+    return revertData;
+  }
+}
+
+// the expected error is given by its name or by its signature, e.g. to distinguish the overloads
+function matchesError(error: string, name: string, signature: string): boolean {
+  return (error.includes("(") ? signature : name) === error;
+}
+
+/**
+ * Checks that the transaction is reverted with the custom error of the given name or signature
+ * declared in any compiled contract, so the contract declaring the error does not need to be known.
+ */
+async function checkRevert(subject: Promise<unknown>, error: string, expectedArgs: unknown[] | undefined) {
+  // the subject is handled before the registry is built to not leave its rejection unhandled
+  const revertDataPromise = getSubjectRevertData(subject);
+  const registry = await getErrorRegistry();
+  if (![...registry.values()].some(({ fragment }) => matchesError(error, fragment.name, fragment.format("sighash")))) {
+    await revertDataPromise.catch(() => undefined);
+    throw new Error(`The custom error '${error}' is not declared in any compiled contract`);
+  }
+
+  const revertData = await revertDataPromise;
+  if (revertData === undefined) {
+    throw new chai.AssertionError(`Expected the transaction to be reverted with '${error}', but it was not reverted`);
+  }
+
+  const revert = await decodeRevertData(revertData);
+  if (!revert) {
+    throw new chai.AssertionError(
+      `Expected the transaction to be reverted with '${error}', but it was reverted with unknown data: ${revertData}`,
+    );
+  }
+  if (!matchesError(error, revert.name, revert.signature)) {
+    throw new chai.AssertionError(
+      `Expected the transaction to be reverted with '${error}', but it was reverted with ${formatRevert(revert)}`,
+    );
+  }
+  if (expectedArgs !== undefined) {
+    chai.expect(normalizeArg(revert.args)).to.deep.equal(
+      normalizeArg(expectedArgs),
+      `The arguments of the error ${formatRevert(revert)} are wrong`,
+    );
+  }
+}
+
+chai.use((chaiInstance) => {
+  chaiInstance.Assertion.addMethod(
+    "revertWith",
+    function (this: Chai.AssertionStatic, error: string, args?: unknown[]) {
+      if (chaiInstance.util.flag(this, "negate")) {
+        throw new Error("The 'revertWith' matcher does not support negation");
+      }
+      let subject = this._obj;
+      if (typeof subject === "function") {
+        subject = subject();
+      }
+      const derivedPromise = checkRevert(Promise.resolve(subject), error, args);
+      Object.assign(this, {
+        then: derivedPromise.then.bind(derivedPromise),
+        catch: derivedPromise.catch.bind(derivedPromise),
+      });
+      return this;
+    },
+  );
+});
@@ -1,6 +1,6 @@
 import "@openzeppelin/hardhat-upgrades";
 import "@nomicfoundation/hardhat-chai-matchers";
-import { ethers, network, upgrades } from "hardhat";
+import { ethers, upgrades } from "hardhat";
 import {
   AddressLike,
   BaseContract,
@@ -13,7 +13,7 @@ import {
 } from "ethers";
 import { expect } from "chai";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { getClockAdapter } from "./clock";
 
 /**
  * Waits for a transaction to be mined and returns the receipt.
@@ -34,6 +34,7 @@ export async function proveTx(
  *
  * Not typesafe, but it's a common pattern in the codebase.
  * Connects a contract to a specific signer.
+ * Use `connectTyped()` to keep the TypeChain type of the contract.
  */
 export function connect(contract: BaseContract, signer: HardhatEthersSigner): Contract {
   return contract.connect(signer) as Contract;
@@ -83,19 +84,10 @@ export async function getLatestBlockTimestamp(): Promise<number> {
 
 /**
  * Increases the block timestamp to the target value.
+ * The network client is chosen like for `Clock`, so it works on Hardhat, Stratus and anvil.
  */
 export async function increaseBlockTimestampTo(target: number | bigint) {
-  if (network.name === "hardhat") {
-    await time.increaseTo(target);
-  } else if (network.name === "stratus") {
-    if (typeof target === "bigint") {
-      target = Number(target);
-    }
-    await ethers.provider.send("evm_setNextBlockTimestamp", [target]);
-    await ethers.provider.send("evm_mine", []);
-  } else {
-    throw new Error(`Setting block timestamp for the current blockchain is not supported: ${network.name}`);
-  }
+  await (await getClockAdapter()).mine(Number(target));
 }
 
 /**
@@ -120,6 +112,7 @@ export async function getNumberOfEvents(
 
 /**
  * Checks that a UUPS upgradeable contract can be upgraded properly.
+ * Only the change of the implementation is checked, see `shouldUpgradeSafelyFromRelease()` for the storage and state.
  */
 export async function checkContractUupsUpgrading(
   contract: Contract | BaseContract,
@@ -182,6 +175,7 @@ export async function checkEventSequence(
 /**
  * Deploys a contract and connects it to a specific signer.
  * Not typesafe, but it's a common pattern in the codebase.
+ * Use the TypeChain factory or `deployProxy()` from `/fixtures` to get a typed contract.
  */
 export async function deployAndConnectContract(
   contractFactory: ContractFactory,
@@ -0,0 +1,88 @@
+import { ethers, upgrades } from "hardhat";
+import { expect } from "chai";
+import { BaseContract, ContractFactory, ContractTransactionResponse } from "ethers";
+import { connectTyped, defineFixture, deployProxy, deployUups } from "./fixtures";
+
+// the type TypeChain would generate for the mock, the types are not generated for the package
+interface UupsMock extends BaseContract {
+  value(): Promise<bigint>;
+  setValue(value: bigint): Promise<ContractTransactionResponse>;
+}
+
+describe("fixtures", () => {
+  let uupsMockFactory: ContractFactory<[bigint], UupsMock>;
+
+  before(async () => {
+    uupsMockFactory = await ethers.getContractFactory("UupsMock") as unknown as ContractFactory<[bigint], UupsMock>;
+  });
+
+  describe("deployProxy() and deployUups()", () => {
+    it("deploy the initialized proxies of the given kinds", async () => {
+      const transparent = await deployProxy(uupsMockFactory, [1n], { kind: "transparent" });
+      const uups = await deployUups(uupsMockFactory, [2n]);
+
+      expect(await transparent.value()).to.equal(1n);
+      expect(await uups.value()).to.equal(2n);
+      expect(await upgrades.erc1967.getAdminAddress(await transparent.getAddress())).not.to.equal(ethers.ZeroAddress);
+      expect(await upgrades.erc1967.getAdminAddress(await uups.getAddress())).to.equal(ethers.ZeroAddress);
+    });
+  });
+
+  describe("connectTyped()", () => {
+    it("connects a contract and an address of the factory type to a runner", async () => {
+      const [, stranger] = await ethers.getSigners();
+      const uups = await deployUups(uupsMockFactory, [1n]);
+
+      expect(connectTyped(uups, stranger).runner).to.equal(stranger);
+      const attached = connectTyped(uupsMockFactory, await uups.getAddress());
+      expect(attached.runner).to.equal(uupsMockFactory.runner);
+      expect(await attached.value()).to.equal(1n);
+      expect(connectTyped(uupsMockFactory, uups, stranger).runner).to.equal(stranger);
+    });
+  });
+
+  describe("defineFixture()", () => {
+    let setUpCount: number;
+    const uupsFixture = defineFixture(async () => {
+      ++setUpCount;
+      return { first: await deployUups(uupsMockFactory, [1n]) };
+    });
+    const extendedFixture = uupsFixture.extend(async ({ first }) => ({
+      second: await deployUups(uupsMockFactory, [await first.value() + 1n]),
+    }));
+
+    beforeEach(() => {
+      setUpCount = 0;
+    });
+
+    it("reverts to the snapshot when the fixture is called again", async () => {
+      const { first } = await uupsFixture();
+      await (await first.setValue(10n)).wait();
+
+      const { first: restored } = await uupsFixture();
+
+      expect(await restored.getAddress()).to.equal(await first.getAddress());
+      expect(await restored.value()).to.equal(1n);
+      expect(setUpCount).to.equal(1);
+    });
+
+    it("sets up the state without the snapshot with deploy()", async () => {
+      const { first } = await uupsFixture.deploy();
+      const { first: other } = await uupsFixture.deploy();
+
+      expect(await other.getAddress()).not.to.equal(await first.getAddress());
+      expect(setUpCount).to.equal(2);
+    });
+
+    it("merges the results of an extended fixture that sets up its dependency without its snapshot", async () => {
+      const { first, second } = await extendedFixture();
+      await (await first.setValue(10n)).wait();
+      const { first: restored } = await extendedFixture();
+
+      expect(await second.value()).to.equal(2n);
+      expect(await restored.value()).to.equal(1n);
+      // the dependency is set up inside the snapshot of the extended fixture
+      expect(setUpCount).to.equal(1);
+    });
+  });
+});
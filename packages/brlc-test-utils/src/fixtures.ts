@@ -0,0 +1,94 @@
+import "@openzeppelin/hardhat-upgrades";
+import { upgrades } from "hardhat";
+import { Addressable, BaseContract, ContractFactory, ContractRunner } from "ethers";
+import { DeployProxyOptions } from "@openzeppelin/hardhat-upgrades/dist/utils";
+import { setUpFixture } from "./common";
+
+/**
+ * The contract type of a factory generated by TypeChain, e.g. `Contracts.Cashier` for `Contracts.Cashier__factory`.
+ * It is taken from `deploy()`, because the TypeChain factories do not override `attach()`.
+ */
+export type ContractOf<F extends ContractFactory> = Awaited<ReturnType<F["deploy"]>>;
+
+/**
+ * A fixture created by `defineFixture()`. Calling it sets up the state through `setUpFixture()`,
+ * so on the Hardhat network the contracts are deployed once and the next calls revert to the snapshot.
+ */
+export interface TypedFixture<T extends object> {
+  (): Promise<T>;
+  // sets up the state without the snapshot, e.g. as a dependency of another fixture
+  deploy(): Promise<T>;
+  // creates a fixture that sets up this one and then the given one, the results of both are merged
+  extend<U extends object>(setUp: (result: T) => Promise<U>): TypedFixture<T & U>;
+}
+
+/**
+ * Deploys an upgradeable contract behind a proxy and returns it typed by the TypeChain factory.
+ * The contract is connected to the runner of the factory.
+ */
+export async function deployProxy<F extends ContractFactory>(
+  factory: F,
+  args: unknown[] = [],
+  options: DeployProxyOptions = {},
+): Promise<ContractOf<F>> {
+  const contract = await upgrades.deployProxy(factory, args, options);
+  await contract.waitForDeployment();
+  return contract as unknown as ContractOf<F>;
+}
+
+/**
+ * Deploys a UUPS upgradeable contract and returns it typed by the TypeChain factory.
+ */
+export async function deployUups<F extends ContractFactory>(
+  factory: F,
+  args: unknown[] = [],
+  options: Omit<DeployProxyOptions, "kind"> = {},
+): Promise<ContractOf<F>> {
+  return deployProxy(factory, args, { ...options, kind: "uups" });
+}
+
+/**
+ * Connects a contract to a runner, e.g. a signer, keeping its TypeChain type.
+ */
+export function connectTyped<T extends BaseContract>(contract: T, runner: ContractRunner): T;
+
+/**
+ * Connects to the contract at the given address typed by the TypeChain factory.
+ * The runner of the factory is used if no runner is given.
+ */
+export function connectTyped<F extends ContractFactory>(
+  factory: F,
+  target: string | Addressable,
+  runner?: ContractRunner,
+): ContractOf<F>;
+
+export function connectTyped(
+  subject: BaseContract | ContractFactory,
+  targetOrRunner: string | Addressable | ContractRunner,
+  runner?: ContractRunner,
+): BaseContract {
+  if (subject instanceof ContractFactory) {
+    const contract = subject.attach(targetOrRunner as string | Addressable);
+    return contract.connect(runner ?? subject.runner);
+  }
+  return subject.connect(targetOrRunner as ContractRunner);
+}
+
+/**
+ * Defines a typed fixture that can be extended by the fixtures of the dependent contracts,
+ * e.g. a token mock, then a treasury using the token, then a desk using both of them.
+ */
+export function defineFixture<T extends object>(setUp: () => Promise<T>): TypedFixture<T> {
+  // `loadFixture()` identifies fixtures by the function and rejects the anonymous ones
+  const deploy = async function deployFixture(): Promise<T> {
+    return setUp();
+  };
+  const fixture = () => setUpFixture(deploy);
+  return Object.assign(fixture, {
+    deploy,
+    extend: <U extends object>(extension: (result: T) => Promise<U>) => defineFixture(async () => {
+      const result = await deploy();
+      return { ...result, ...(await extension(result)) };
+    }),
+  });
+}
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import {
+  defineAction,
+  formatFuzzSequence,
+  Random,
+  replayFuzzSequence,
+  runStatefulFuzz,
+  StatefulFuzzConfig,
+} from "./fuzz";
+
+interface Counter {
+  value: number;
+}
+
+// a counter in memory instead of a contract, it loses the amounts above 100
+const counter: Counter = { value: 0 };
+
+async function deployCounter(): Promise<Counter> {
+  return counter;
+}
+
+function createConfig(): StatefulFuzzConfig<Counter, Counter> {
+  return {
+    fixture: deployCounter,
+    createModel(context) {
+      // the fixture returns the same object for every sequence, so its state is reset here
+      context.value = 0;
+      return { value: 0 };
+    },
+    actions: [
+      defineAction<Counter, Counter, [number]>({
+        name: "add",
+        generate: random => [random.int(1, 1000)],
+        run: async (context, amount) => {
+          context.value += Math.min(amount, 100);
+        },
+        apply: (model, amount) => {
+          model.value += amount;
+        },
+      }),
+      defineAction<Counter, Counter, [number]>({
+        name: "subtract",
+        generate: random => [random.int(1, 50)],
+        precondition: (model, amount) => model.value >= amount,
+        run: async (context, amount) => {
+          context.value -= amount;
+        },
+        apply: (model, amount) => {
+          model.value -= amount;
+        },
+      }),
+    ],
+    async check(context, model) {
+      expect(context.value).to.equal(model.value, "The counter value is wrong");
+    },
+  };
+}
+
+async function getErrorMessage(promise: Promise<unknown>): Promise<string | undefined> {
+  return promise.then(() => undefined, (error: Error) => error.message);
+}
+
+describe("fuzz", () => {
+  describe("Random", () => {
+    it("repeats the values for the same seed", () => {
+      const first = new Random(42);
+      const second = new Random(42);
+
+      const values = Array.from({ length: 10 }, () => first.next());
+
+      expect(Array.from({ length: 10 }, () => second.next())).to.deep.equal(values);
+      expect(new Random(43).next()).not.to.equal(values[0]);
+    });
+
+    it("returns the integers and bigints within the ranges", () => {
+      const random = new Random(1);
+
+      for (let i = 0; i < 100; ++i) {
+        expect(random.int(-3, 3)).to.be.within(-3, 3);
+        const value = random.bigint(2n ** 100n, 2n ** 100n + 5n);
+        expect(value >= 2n ** 100n && value <= 2n ** 100n + 5n).to.equal(true, `${value} is out of the range`);
+      }
+    });
+
+    it("throws when picking from an empty array", () => {
+      expect(() => new Random(1).pick([])).to.throw("Cannot pick an item from an empty array");
+    });
+  });
+
+  describe("formatFuzzSequence()", () => {
+    it("formats the steps as a call of replayFuzzSequence()", () => {
+      const code = formatFuzzSequence([
+        ["deposit", ["0xabc", 10n, { amount: 1n, note: "a" }]],
+        ["pause", []],
+      ]);
+
+      expect(code).to.equal([
+        "await replayFuzzSequence(config, [",
+        "  [\"deposit\", [\"0xabc\", 10n, { amount: 1n, note: \"a\" }]],",
+        "  [\"pause\", []],",
+        "]);",
+      ].join("\n"));
+    });
+  });
+
+  describe("replayFuzzSequence()", () => {
+    it("passes for a sequence that matches the model", async () => {
+      await replayFuzzSequence(createConfig(), [["add", [100]], ["subtract", [30]]]);
+    });
+
+    it("throws the error of the failed step", async () => {
+      expect(await getErrorMessage(replayFuzzSequence(createConfig(), [["add", [100]], ["add", [101]]])))
+        .to.contain("The counter value is wrong");
+    });
+
+    it("throws if a precondition does not hold", async () => {
+      expect(await getErrorMessage(replayFuzzSequence(createConfig(), [["subtract", [1]]])))
+        .to.equal("A precondition of the replayed sequence does not hold");
+    });
+  });
+
+  describe("runStatefulFuzz()", () => {
+    afterEach(() => {
+      delete process.env.FUZZ_SEED;
+    });
+
+    it("shrinks a failed sequence to the failed step with a smaller argument", async () => {
+      const message = await getErrorMessage(runStatefulFuzz({ ...createConfig(), seed: 1 }));
+
+      expect(message).to.contain("Stateful fuzzing failed with seed 1 on run 1");
+      const [, amount] = /Step 1 add\((\d+)\) of the minimal sequence failed/.exec(message ?? "") ?? [];
+      expect(Number(amount)).to.be.within(101, 1000);
+      expect(message).to.contain(`await replayFuzzSequence(config, [\n  ["add", [${amount}]],\n]);`);
+    });
+
+    it("passes if the contract matches the model", async () => {
+      const config = createConfig();
+      // no amounts above 100 are generated
+      const add = { ...config.actions[0], generate: (random: Random) => [random.int(1, 100)] };
+
+      await runStatefulFuzz({ ...config, actions: [add, config.actions[1]], runs: 3, seed: 1 });
+    });
+
+    it("rejects a seed of the environment that is not an integer", async () => {
+      process.env.FUZZ_SEED = "abc";
+
+      expect(await getErrorMessage(runStatefulFuzz(createConfig())))
+        .to.equal("The FUZZ_SEED environment variable must be an integer: abc");
+    });
+  });
+});
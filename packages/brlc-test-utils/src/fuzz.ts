@@ -0,0 +1,319 @@
+import { setUpFixture } from "./common";
+
+/**
+ * A seeded pseudo-random generator, so a failed fuzzing run can be repeated with the same seed.
+ */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Returns a number in the range [0, 1), the Mulberry32 algorithm.
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /**
+   * Returns an integer in the range [min, max].
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Returns a bigint in the range [min, max].
+   */
+  bigint(min: bigint, max: bigint): bigint {
+    const range = max - min + 1n;
+    let value = 0n;
+    for (let bound = 1n; bound < range * 2n ** 32n; bound *= 2n ** 32n) {
+      value = value * 2n ** 32n + BigInt(Math.floor(this.next() * 2 ** 32));
+    }
+    return min + (value % range);
+  }
+
+  bool(): boolean {
+    return this.next() < 0.5;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error("Cannot pick an item from an empty array");
+    }
+    return items[this.int(0, items.length - 1)];
+  }
+}
+
+/**
+ * An action of stateful fuzzing, e.g. a deposit of a random amount by a random account.
+ * The arguments must be plain values: numbers, bigints, strings, booleans, arrays and objects of them,
+ * e.g. the addresses of the accounts rather than the signers, so the failed sequences can be printed and replayed.
+ */
+export interface FuzzAction<TContext, TModel, TArgs extends unknown[] = unknown[]> {
+  name: string;
+  // creates the arguments from the current state of the model
+  generate(random: Random, model: TModel): TArgs;
+  // the action is skipped if the arguments are not allowed in the current state
+  precondition?(model: TModel, ...args: TArgs): boolean;
+  // whether the action must be reverted by the contract in the current state, the model is not changed then
+  expectRevert?(model: TModel, ...args: TArgs): boolean;
+  // sends the transactions of the action
+  run(context: TContext, ...args: TArgs): Promise<unknown>;
+  // applies the expected effect of the action to the model
+  apply?(model: TModel, ...args: TArgs): void;
+}
+
+export interface StatefulFuzzConfig<TContext, TModel> {
+  // deploys and configures the contracts, runs through `setUpFixture()`, so it is a snapshot on the Hardhat network
+  fixture: () => Promise<TContext>;
+  createModel(context: TContext): TModel | Promise<TModel>;
+  actions: FuzzAction<TContext, TModel>[];
+  // compares the state of the contracts with the model after every step, e.g. with `expect()`
+  check(context: TContext, model: TModel): Promise<void>;
+  runs?: number; // 10 by default
+  steps?: number; // the maximum number of steps of a run, 20 by default
+  seed?: number; // the `FUZZ_SEED` environment variable or a random one by default
+}
+
+/**
+ * A step of a fuzzing sequence: the action name and its arguments.
+ */
+export type FuzzStep = [actionName: string, args: unknown[]];
+
+interface SequenceResult {
+  valid: boolean; // false if a precondition of a step does not hold
+  error?: unknown;
+  failedStep?: number;
+}
+
+const MAX_GENERATION_ATTEMPTS = 10;
+const MAX_SHRINKING_EXECUTIONS = 200;
+
+/**
+ * Erases the type of the action arguments, so the actions with different arguments can be put in one array.
+ */
+export function defineAction<TContext, TModel, TArgs extends unknown[]>(
+  action: FuzzAction<TContext, TModel, TArgs>,
+): FuzzAction<TContext, TModel> {
+  return action as unknown as FuzzAction<TContext, TModel>;
+}
+
+function getAction<TContext, TModel>(config: StatefulFuzzConfig<TContext, TModel>, name: string) {
+  const action = config.actions.find(action => action.name === name);
+  if (!action) {
+    throw new Error(`The fuzzing action is not found: ${name}`);
+  }
+  return action;
+}
+
+async function executeStep<TContext, TModel>(
+  config: StatefulFuzzConfig<TContext, TModel>,
+  context: TContext,
+  model: TModel,
+  action: FuzzAction<TContext, TModel>,
+  args: unknown[],
+) {
+  if (action.expectRevert?.(model, ...args)) {
+    const reverted = await action.run(context, ...args).then(() => false, () => true);
+    if (!reverted) {
+      throw new Error("The action is not reverted, but the model expects it");
+    }
+  } else {
+    await action.run(context, ...args);
+    action.apply?.(model, ...args);
+  }
+  await config.check(context, model);
+}
+
+async function executeSequence<TContext, TModel>(
+  config: StatefulFuzzConfig<TContext, TModel>,
+  steps: FuzzStep[],
+): Promise<SequenceResult> {
+  const context = await setUpFixture(config.fixture);
+  const model = await config.createModel(context);
+  for (let index = 0; index < steps.length; ++index) {
+    const [name, args] = steps[index];
+    const action = getAction(config, name);
+    if (action.precondition && !action.precondition(model, ...args)) {
+      return { valid: false };
+    }
+    try {
+      await executeStep(config, context, model, action, args);
+    } catch (error) {
+      return { valid: true, error, failedStep: index };
+    }
+  }
+  return { valid: true };
+}
+
+async function generateSequence<TContext, TModel>(
+  config: StatefulFuzzConfig<TContext, TModel>,
+  random: Random,
+): Promise<{ steps: FuzzStep[]; error?: unknown }> {
+  const context = await setUpFixture(config.fixture);
+  const model = await config.createModel(context);
+  const steps: FuzzStep[] = [];
+  for (let index = 0; index < (config.steps ?? 20); ++index) {
+    let step: [FuzzAction<TContext, TModel>, unknown[]] | undefined;
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS && !step; ++attempt) {
+      const action = random.pick(config.actions);
+      const args = action.generate(random, model);
+      if (!action.precondition || action.precondition(model, ...args)) {
+        step = [action, args];
+      }
+    }
+    if (!step) {
+      break; // no action is possible in the current state
+    }
+    const [action, args] = step;
+    steps.push([action.name, args]);
+    try {
+      await executeStep(config, context, model, action, args);
+    } catch (error) {
+      return { steps, error };
+    }
+  }
+  return { steps };
+}
+
+// smaller candidates of a numeric argument, e.g. 0 and the half of the value
+function getSmallerValues(value: unknown): unknown[] {
+  if (typeof value === "bigint" && value > 0n) {
+    return [...new Set([0n, value / 2n, value - 1n])];
+  }
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+    return [...new Set([0, Math.floor(value / 2), value - 1])];
+  }
+  return [];
+}
+
+/**
+ * Removes steps and decreases numeric arguments while the sequence still fails.
+ */
+async function shrinkSequence<TContext, TModel>(
+  config: StatefulFuzzConfig<TContext, TModel>,
+  steps: FuzzStep[],
+  error: unknown,
+): Promise<{ steps: FuzzStep[]; error: unknown; failedStep: number }> {
+  let best = { steps, error, failedStep: steps.length - 1 };
+  let executions = 0;
+  const tryCandidate = async (candidate: FuzzStep[]): Promise<boolean> => {
+    ++executions;
+    const result = await executeSequence(config, candidate);
+    if (!result.valid || result.failedStep === undefined) {
+      return false;
+    }
+    best = { steps: candidate.slice(0, result.failedStep + 1), error: result.error, failedStep: result.failedStep };
+    return true;
+  };
+
+  let shrunk = true;
+  while (shrunk && executions < MAX_SHRINKING_EXECUTIONS) {
+    shrunk = false;
+    for (let index = 0; index < best.steps.length && executions < MAX_SHRINKING_EXECUTIONS; ++index) {
+      if (await tryCandidate(best.steps.filter((_, stepIndex) => stepIndex !== index))) {
+        shrunk = true;
+        --index;
+      }
+    }
+    for (let index = 0; index < best.steps.length && executions < MAX_SHRINKING_EXECUTIONS; ++index) {
+      // the best sequence changes with every successful candidate, e.g. it is cut after the failed step
+      for (let argIndex = 0; index < best.steps.length && argIndex < best.steps[index][1].length; ++argIndex) {
+        for (const value of getSmallerValues(best.steps[index][1][argIndex])) {
+          const [name, args] = best.steps[index];
+          const candidate = [...best.steps];
+          candidate[index] = [name, args.map((arg, i) => (i === argIndex ? value : arg))];
+          if (executions < MAX_SHRINKING_EXECUTIONS && await tryCandidate(candidate)) {
+            shrunk = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+  return best;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    return `{ ${Object.entries(value).map(([key, item]) => `${key}: ${formatValue(item)}`).join(", ")} }`;
+  }
+  return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+/**
+ * Formats the steps as a call of `replayFuzzSequence()` to paste into a test.
+ */
+export function formatFuzzSequence(steps: FuzzStep[]): string {
+  const lines = steps.map(([name, args]) => `  [${JSON.stringify(name)}, ${formatValue(args)}],`);
+  return ["await replayFuzzSequence(config, [", ...lines, "]);"].join("\n");
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Runs the given steps from the fixture and throws the error of the first failed step,
+ * e.g. to reproduce a sequence found by `runStatefulFuzz()`.
+ */
+export async function replayFuzzSequence<TContext, TModel>(
+  config: StatefulFuzzConfig<TContext, TModel>,
+  steps: FuzzStep[],
+) {
+  const result = await executeSequence(config, steps);
+  if (!result.valid) {
+    throw new Error("A precondition of the replayed sequence does not hold");
+  }
+  if (result.failedStep !== undefined) {
+    throw result.error;
+  }
+}
+
+function getSeedFromEnvironment(): number | undefined {
+  const value = process.env.FUZZ_SEED;
+  if (!value) {
+    return undefined;
+  }
+  const seed = Number(value);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`The FUZZ_SEED environment variable must be an integer: ${value}`);
+  }
+  return seed;
+}
+
+/**
+ * Runs random sequences of the actions from the fixture and compares the contracts with the model after every step.
+ * A failed sequence is shrunk to a minimal one, which is printed in the error as test code with the seed of the run.
+ */
+export async function runStatefulFuzz<TContext, TModel>(config: StatefulFuzzConfig<TContext, TModel>) {
+  const seed = config.seed ?? getSeedFromEnvironment() ?? Date.now() % 2 ** 32;
+  const random = new Random(seed);
+  for (let run = 1; run <= (config.runs ?? 10); ++run) {
+    const { steps, error } = await generateSequence(config, random);
+    if (error === undefined) {
+      continue;
+    }
+    const shrunk = await shrinkSequence(config, steps, error);
+    const [name, args] = shrunk.steps[shrunk.failedStep];
+    throw new Error(
+      `Stateful fuzzing failed with seed ${seed} on run ${run} after ${steps.length} step(s).\n` +
+      `Step ${shrunk.failedStep + 1} ${name}(${formatValue(args).slice(1, -1)}) of the minimal sequence failed: ` +
+      `${getErrorMessage(shrunk.error)}\n\n${formatFuzzSequence(shrunk.steps)}`,
+    );
+  }
+}
@@ -3,3 +3,21 @@ export * from "./common";
 export * from "./eth";
 
 export * from "./checkers";
+
+export * from "./behaviors";
+
+export * from "./accessControl";
+
+export * from "./version";
+
+export * from "./balances";
+
+export * from "./fuzz";
+
+export * from "./errors";
+
+export * from "./clock";
+
+export * from "./fixtures";
+
+export * from "./upgrades";
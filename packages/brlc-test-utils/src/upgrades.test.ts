@@ -0,0 +1,193 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect } from "chai";
+import {
+  checkStorageLayoutCompatibility,
+  checkStorageLocations,
+  getErc7201StorageLocation,
+  StorageLayoutSnapshot,
+  StorageMemberSnapshot,
+  StorageTypeSnapshot,
+} from "./upgrades";
+
+// the locations declared in the OpenZeppelin contracts
+const ACCESS_CONTROL_LOCATION = "0x02dd7bc7dec4dceedda775e58dd541e08a116c6c53815c0bd028192f7b626800";
+const ERC20_LOCATION = "0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00";
+
+function type(label: string, numberOfBytes = "32"): StorageTypeSnapshot {
+  return { label, encoding: "inplace", numberOfBytes };
+}
+
+function mapping(key: StorageTypeSnapshot, value: StorageTypeSnapshot): StorageTypeSnapshot {
+  return { label: `mapping(${key.label} => ${value.label})`, encoding: "mapping", numberOfBytes: "32", key, value };
+}
+
+function member(label: string, memberType: StorageTypeSnapshot, slot = "0", offset = 0): StorageMemberSnapshot {
+  return { label, type: memberType, slot, offset };
+}
+
+function createRoleData(...members: StorageMemberSnapshot[]): StorageTypeSnapshot {
+  return { label: "struct RoleData", encoding: "inplace", numberOfBytes: String(members.length * 32), members };
+}
+
+function createLayout(roleData = createRoleData(
+  member("hasRole", mapping(type("address", "20"), type("bool", "1"))),
+  member("adminRole", type("bytes32"), "1"),
+)): StorageLayoutSnapshot {
+  return {
+    "openzeppelin.storage.AccessControl": {
+      location: ACCESS_CONTROL_LOCATION,
+      members: [member("_roles", mapping(type("bytes32"), roleData))],
+    },
+    "openzeppelin.storage.ERC20": {
+      location: ERC20_LOCATION,
+      members: [
+        member("_balances", mapping(type("address", "20"), type("uint256"))),
+        member("_totalSupply", type("uint256"), "1"),
+      ],
+    },
+  };
+}
+
+describe("upgrades", () => {
+  describe("getErc7201StorageLocation()", () => {
+    it("returns the locations of the ERC-7201 formula", () => {
+      expect(getErc7201StorageLocation("openzeppelin.storage.AccessControl")).to.equal(ACCESS_CONTROL_LOCATION);
+      expect(getErc7201StorageLocation("openzeppelin.storage.ERC20")).to.equal(ERC20_LOCATION);
+    });
+  });
+
+  describe("checkStorageLayoutCompatibility()", () => {
+    it("allows the new namespaces and the members appended to the released namespaces and structs", () => {
+      const current = createLayout(createRoleData(
+        member("hasRole", mapping(type("address", "20"), type("bool", "1"))),
+        member("adminRole", type("bytes32"), "1"),
+        member("grantedAt", type("uint64", "8"), "2"),
+      ));
+      const stringType: StorageTypeSnapshot = { ...type("string"), encoding: "bytes" };
+      current["openzeppelin.storage.ERC20"].members.push(member("_name", stringType, "2"));
+      current["cloudwalk.storage.Treasury"] = {
+        location: getErc7201StorageLocation("cloudwalk.storage.Treasury"),
+        members: [],
+      };
+
+      expect(checkStorageLayoutCompatibility(createLayout(), current)).to.deep.equal([]);
+    });
+
+    it("returns the renamed members and the types with other labels as compatible", () => {
+      const current = createLayout(createRoleData(
+        member("members", mapping(type("address", "20"), type("bool", "1"))),
+        member("adminRole", type("bytes32"), "1"),
+      ));
+      current["openzeppelin.storage.ERC20"].members[1] = member("_supply", type("uint256 (renamed)"), "1");
+
+      expect(checkStorageLayoutCompatibility(createLayout(), current)).to.deep.equal([
+        "The member '_roles[].hasRole' of the namespace 'openzeppelin.storage.AccessControl' is renamed to 'members'",
+        "The member '_totalSupply' of the namespace 'openzeppelin.storage.ERC20' is renamed to '_supply'",
+      ]);
+    });
+
+    it("lists the removed namespaces, the removed members and the changed types", () => {
+      const current = createLayout();
+      delete current["openzeppelin.storage.AccessControl"];
+      current["openzeppelin.storage.ERC20"].members = [
+        member("_balances", mapping(type("address", "20"), type("uint128", "16"))),
+      ];
+
+      expect(() => checkStorageLayoutCompatibility(createLayout(), current)).to.throw([
+        "The storage layout is incompatible with the released one:",
+        "The namespace 'openzeppelin.storage.AccessControl' is removed",
+        "The type of '_balances[]' of the namespace 'openzeppelin.storage.ERC20' is changed: " +
+        "'uint256' (inplace, 32 bytes) -> 'uint128' (inplace, 16 bytes)",
+        "The member '_totalSupply' at slot 1 offset 0 of the namespace 'openzeppelin.storage.ERC20' is removed",
+      ].join("\n"));
+    });
+
+    it("lists the reordered members of the structs behind a mapping by their types", () => {
+      const current = createLayout(createRoleData(
+        member("adminRole", type("bytes32")),
+        member("hasRole", mapping(type("address", "20"), type("bool", "1")), "1"),
+      ));
+
+      expect(() => checkStorageLayoutCompatibility(createLayout(), current)).to.throw([
+        "The storage layout is incompatible with the released one:",
+        "The type of '_roles[].hasRole' of the namespace 'openzeppelin.storage.AccessControl' is changed: " +
+        "'mapping(address => bool)' (mapping, 32 bytes) -> 'bytes32' (inplace, 32 bytes)",
+        "The type of '_roles[].adminRole' of the namespace 'openzeppelin.storage.AccessControl' is changed: " +
+        "'bytes32' (inplace, 32 bytes) -> 'mapping(address => bool)' (mapping, 32 bytes)",
+      ].join("\n"));
+    });
+
+    it("lists the moved members", () => {
+      const current = createLayout();
+      current["openzeppelin.storage.ERC20"].members[1].slot = "2";
+
+      expect(() => checkStorageLayoutCompatibility(createLayout(), current)).to.throw(
+        "The member '_totalSupply' of the namespace 'openzeppelin.storage.ERC20' is moved " +
+        "from slot 1 offset 0 to slot 2 offset 0",
+      );
+    });
+
+    it("reports a changed location", () => {
+      const current = createLayout();
+      current["openzeppelin.storage.ERC20"].location = ACCESS_CONTROL_LOCATION;
+
+      expect(() => checkStorageLayoutCompatibility(createLayout(), current))
+        .to.throw(`The location of the namespace 'openzeppelin.storage.ERC20' is changed: ${ERC20_LOCATION} -> `);
+    });
+  });
+
+  describe("checkStorageLocations()", () => {
+    let sourcesDirectory: string;
+
+    function writeStorageLayout(fileName: string, namespaceId: string, location: string) {
+      fs.writeFileSync(path.join(sourcesDirectory, fileName), [
+        "abstract contract TreasuryStorageLayout {",
+        `    bytes32 private constant TREASURY_STORAGE_LOCATION = ${location};`,
+        `    /// @custom:storage-location erc7201:${namespaceId}`,
+        "    struct TreasuryStorage {",
+        "        address token;",
+        "    }",
+        "}",
+      ].join("\n"));
+    }
+
+    beforeEach(() => {
+      sourcesDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "storage-locations-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(sourcesDirectory, { recursive: true, force: true });
+    });
+
+    it("passes for the locations matching the annotated namespaces", () => {
+      // the hex digits of the constants are compared case-insensitively
+      const location = "0x" + getErc7201StorageLocation("cloudwalk.storage.Treasury").slice(2).toUpperCase();
+      writeStorageLayout("TreasuryStorageLayout.sol", "cloudwalk.storage.Treasury", location);
+      // other files are not checked
+      writeStorageLayout("Treasury.sol", "cloudwalk.storage.Treasury", ERC20_LOCATION);
+
+      checkStorageLocations(sourcesDirectory);
+    });
+
+    it("reports a location that does not match its namespace", () => {
+      writeStorageLayout("TreasuryStorageLayout.sol", "cloudwalk.storage.Treasury", ERC20_LOCATION);
+
+      expect(() => checkStorageLocations(sourcesDirectory)).to.throw(
+        `TreasuryStorageLayout.sol: TREASURY_STORAGE_LOCATION is ${ERC20_LOCATION}, but it must be ` +
+        `${getErc7201StorageLocation("cloudwalk.storage.Treasury")} for 'cloudwalk.storage.Treasury'`,
+      );
+    });
+
+    it("reports a namespace without a location constant", () => {
+      fs.writeFileSync(
+        path.join(sourcesDirectory, "VaultStorageLayout.sol"),
+        "/// @custom:storage-location erc7201:cloudwalk.storage.Vault\nstruct VaultStorage { uint256 total; }\n",
+      );
+
+      expect(() => checkStorageLocations(sourcesDirectory))
+        .to.throw("VaultStorageLayout.sol: 1 namespace(s), but 0 location constant(s)");
+    });
+  });
+});
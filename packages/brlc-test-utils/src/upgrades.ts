@@ -0,0 +1,441 @@
+import "@openzeppelin/hardhat-upgrades";
+import fs from "node:fs";
+import path from "node:path";
+import hre, { artifacts, config, ethers, upgrades } from "hardhat";
+import chai, { expect } from "chai";
+import { AbiCoder, Contract, ContractFactory, Interface, keccak256, Result, toBeHex, toUtf8Bytes } from "ethers";
+import { getProxyFactory, readValidations } from "@openzeppelin/hardhat-upgrades/dist/utils";
+import { proveTx } from "./eth";
+
+/**
+ * A storage type compared by its encoding and size. The label, e.g. `mapping(bytes32 => struct Operation)`,
+ * is kept for the messages only, because the type identifiers of the compiler change between compilations.
+ */
+export interface StorageTypeSnapshot {
+  label: string;
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  numberOfBytes: string;
+  members?: StorageMemberSnapshot[]; // of a struct
+  key?: StorageTypeSnapshot; // of a mapping
+  value?: StorageTypeSnapshot; // of a mapping or the item of an array
+}
+
+/**
+ * A member of an ERC-7201 namespace or of a struct.
+ */
+export interface StorageMemberSnapshot {
+  label: string;
+  type: StorageTypeSnapshot;
+  slot: string; // relative to the location of the namespace or of the struct
+  offset: number;
+}
+
+export interface StorageNamespaceSnapshot {
+  location: string;
+  members: StorageMemberSnapshot[];
+}
+
+/**
+ * Namespace ID -> the namespace, e.g. `cloudwalk.storage.BalanceFreezer`,
+ * including the namespaces of the inherited contracts like `openzeppelin.storage.AccessControl`.
+ */
+export type StorageLayoutSnapshot = Record<string, StorageNamespaceSnapshot>;
+
+/**
+ * A released implementation of a contract stored in the repository to test the upgrades from it.
+ */
+export interface ReleaseArtifact {
+  contractName: string;
+  abi: unknown[];
+  bytecode: string;
+  storageLayout: StorageLayoutSnapshot;
+}
+
+export interface UpgradeSafetyOptions<TState> {
+  contractName?: string; // the name of the current contract, the name of the released one by default
+  // the arguments of the `initialize()` function of the released contract,
+  // a function if they are known only when the test runs, e.g. the contracts of a fixture
+  initializerArgs?: unknown[] | (() => unknown[]);
+  // writes the state through the released contract before the upgrade and returns the expected values
+  setUpState?(contract: Contract): Promise<TState>;
+  // checks the state through the getters of the current contract after the upgrade, e.g. the getters with parameters
+  checkState?(contract: Contract, state: TState): Promise<void>;
+  ignoredGetters?: string[]; // the getters without parameters that may change their results, `$__VERSION()` by default
+}
+
+// A namespace annotation of a struct, like `@custom:storage-location erc7201:cloudwalk.storage.Treasury`
+const NAMESPACE_ANNOTATION = /@custom:storage-location\s+erc7201:([\w.-]+)/g;
+
+// A storage location constant, like `bytes32 private constant TREASURY_STORAGE_LOCATION = 0x...`
+const STORAGE_LOCATION_CONSTANT =
+  /bytes32\s+(?:private\s+|internal\s+)?constant\s+(\w+)\s*=\s*(0x[0-9a-fA-F]{64})\s*;/g;
+
+/**
+ * Returns the storage location of an ERC-7201 namespace:
+ * `keccak256(abi.encode(uint256(keccak256(id)) - 1)) & ~bytes32(uint256(0xff))`.
+ */
+export function getErc7201StorageLocation(namespaceId: string): string {
+  const slot = BigInt(keccak256(toUtf8Bytes(namespaceId))) - 1n;
+  const location = BigInt(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256"], [slot]))) & ~0xffn;
+  return toBeHex(location, 32);
+}
+
+// the types of the storage layout of the upgrades plugin by their compiler identifiers
+type LayoutTypes = Record<string, { label: string; numberOfBytes?: string; members?: unknown[] } | undefined>;
+
+interface LayoutMember {
+  label: string;
+  type: string;
+  slot?: string;
+  offset?: number;
+}
+
+// the type arguments of a compiler type identifier, e.g. the key and the value of `t_mapping(t_bytes32,t_uint256)`
+function getTypeArguments(typeId: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let argumentStart = typeId.indexOf("(") + 1;
+  for (let i = argumentStart - 1; i < typeId.length; ++i) {
+    if (typeId[i] === "(") {
+      ++depth;
+    } else if (typeId[i] === "," && depth === 1) {
+      result.push(typeId.slice(argumentStart, i));
+      argumentStart = i + 1;
+    } else if (typeId[i] === ")" && --depth === 0) {
+      result.push(typeId.slice(argumentStart, i));
+      break;
+    }
+  }
+  return result;
+}
+
+function getTypeEncoding(typeId: string): StorageTypeSnapshot["encoding"] {
+  if (typeId.startsWith("t_mapping(")) {
+    return "mapping";
+  }
+  if (typeId.startsWith("t_array(") && typeId.endsWith(")dyn_storage")) {
+    return "dynamic_array";
+  }
+  if (typeId === "t_string_storage" || typeId === "t_bytes_storage") {
+    return "bytes";
+  }
+  return "inplace";
+}
+
+// `parents` are the structs containing the type, a struct can contain itself through a mapping or an array
+function getTypeSnapshot(types: LayoutTypes, typeId: string, parents: string[] = []): StorageTypeSnapshot {
+  const type = types[typeId];
+  const snapshot: StorageTypeSnapshot = {
+    label: type?.label ?? typeId,
+    encoding: getTypeEncoding(typeId),
+    numberOfBytes: type?.numberOfBytes ?? "32",
+  };
+  if (snapshot.encoding === "mapping") {
+    const [keyTypeId, valueTypeId] = getTypeArguments(typeId);
+    snapshot.key = getTypeSnapshot(types, keyTypeId, parents);
+    snapshot.value = getTypeSnapshot(types, valueTypeId, parents);
+  } else if (typeId.startsWith("t_array(")) {
+    snapshot.value = getTypeSnapshot(types, getTypeArguments(typeId)[0], parents);
+  } else if (typeId.startsWith("t_struct(") && !parents.includes(typeId)) {
+    snapshot.members = ((type?.members ?? []) as LayoutMember[])
+      .map(member => getMemberSnapshot(types, member, [...parents, typeId]));
+  }
+  return snapshot;
+}
+
+function getMemberSnapshot(types: LayoutTypes, member: LayoutMember, parents: string[] = []): StorageMemberSnapshot {
+  return {
+    label: member.label,
+    type: getTypeSnapshot(types, member.type, parents),
+    slot: member.slot ?? "0",
+    offset: member.offset ?? 0,
+  };
+}
+
+/**
+ * Returns the ERC-7201 namespaces of a compiled contract from the validations of the OpenZeppelin upgrades plugin,
+ * which are written by `hardhat compile`. The members of the structs are included, e.g. of the mapping values.
+ */
+export async function getStorageLayoutSnapshot(contractName: string): Promise<StorageLayoutSnapshot> {
+  const validations = await readValidations(hre);
+  for (const runData of validations.log) {
+    const name = Object.keys(runData).find(name => name === contractName || name.endsWith(`:${contractName}`));
+    if (!name) {
+      continue;
+    }
+    const { layout } = runData[name];
+    const snapshot: StorageLayoutSnapshot = {};
+    for (const [namespace, items] of Object.entries(layout.namespaces ?? {})) {
+      if (!namespace.startsWith("erc7201:")) {
+        continue;
+      }
+      const namespaceId = namespace.slice("erc7201:".length);
+      snapshot[namespaceId] = {
+        location: getErc7201StorageLocation(namespaceId),
+        members: items.map(item => getMemberSnapshot(layout.types as LayoutTypes, item)),
+      };
+    }
+    return snapshot;
+  }
+  throw new Error(`The contract is not found in the validations of the upgrades plugin: ${contractName}`);
+}
+
+/**
+ * Stores the compiled contract with its storage layout as a released one, e.g. when a new version is deployed.
+ * The relative path is resolved against the current directory, i.e. the package root.
+ */
+export async function saveReleaseArtifact(contractName: string, releaseFile: string) {
+  const artifact = await artifacts.readArtifact(contractName);
+  const release: ReleaseArtifact = {
+    contractName: artifact.contractName,
+    abi: artifact.abi,
+    bytecode: artifact.bytecode,
+    storageLayout: await getStorageLayoutSnapshot(contractName),
+  };
+  fs.mkdirSync(path.dirname(path.resolve(releaseFile)), { recursive: true });
+  fs.writeFileSync(path.resolve(releaseFile), JSON.stringify(release, null, 2) + "\n");
+}
+
+export function readReleaseArtifact(releaseFile: string): ReleaseArtifact {
+  return JSON.parse(fs.readFileSync(path.resolve(releaseFile), "utf8"));
+}
+
+function formatType(type: StorageTypeSnapshot): string {
+  return `'${type.label}' (${type.encoding}, ${type.numberOfBytes} bytes)`;
+}
+
+// the problems and the renamed members found by `checkStorageLayoutCompatibility()`
+interface LayoutComparison {
+  namespaceId: string;
+  problems: string[];
+  renames: string[];
+}
+
+// the size of a struct may grow by the appended members, they are compared instead
+function compareTypes(
+  released: StorageTypeSnapshot,
+  current: StorageTypeSnapshot,
+  path: string,
+  comparison: LayoutComparison,
+) {
+  const isResized = !released.members && released.numberOfBytes !== current.numberOfBytes;
+  if (released.encoding !== current.encoding || isResized) {
+    comparison.problems.push(
+      `The type of '${path}' of the namespace '${comparison.namespaceId}' ` +
+      `is changed: ${formatType(released)} -> ${formatType(current)}`,
+    );
+    return;
+  }
+  if (released.key && current.key) {
+    compareTypes(released.key, current.key, `${path}.key`, comparison);
+  }
+  if (released.value && current.value) {
+    compareTypes(released.value, current.value, `${path}[]`, comparison);
+  }
+  if (released.members) {
+    compareMembers(released.members, current.members ?? [], `${path}.`, comparison);
+  }
+}
+
+function compareMembers(
+  released: StorageMemberSnapshot[],
+  current: StorageMemberSnapshot[],
+  pathPrefix: string,
+  comparison: LayoutComparison,
+) {
+  released.forEach((releasedMember, index) => {
+    const currentMember = current[index];
+    const path = pathPrefix + releasedMember.label;
+    const position = `slot ${releasedMember.slot} offset ${releasedMember.offset}`;
+    if (!currentMember) {
+      comparison.problems.push(
+        `The member '${path}' at ${position} of the namespace '${comparison.namespaceId}' is removed`,
+      );
+      return;
+    }
+    if (currentMember.slot !== releasedMember.slot || currentMember.offset !== releasedMember.offset) {
+      comparison.problems.push(
+        `The member '${path}' of the namespace '${comparison.namespaceId}' is moved ` +
+        `from ${position} to slot ${currentMember.slot} offset ${currentMember.offset}`,
+      );
+      return;
+    }
+    if (currentMember.label !== releasedMember.label) {
+      comparison.renames.push(
+        `The member '${path}' of the namespace '${comparison.namespaceId}' is renamed to '${currentMember.label}'`,
+      );
+    }
+    compareTypes(releasedMember.type, currentMember.type, path, comparison);
+  });
+}
+
+/**
+ * Checks that every namespace of the released layout keeps its location, and its members and the members
+ * of the structs they contain keep their slots, offsets, and the encodings and sizes of their types.
+ * New namespaces and new members after the released ones are allowed.
+ * The names of the members are not stored, so the renamed members are allowed and returned as notes.
+ */
+export function checkStorageLayoutCompatibility(
+  released: StorageLayoutSnapshot,
+  current: StorageLayoutSnapshot,
+): string[] {
+  const problems: string[] = [];
+  const renames: string[] = [];
+  for (const [namespaceId, releasedNamespace] of Object.entries(released)) {
+    const currentNamespace = current[namespaceId];
+    if (!currentNamespace) {
+      problems.push(`The namespace '${namespaceId}' is removed`);
+      continue;
+    }
+    if (currentNamespace.location !== releasedNamespace.location) {
+      problems.push(
+        `The location of the namespace '${namespaceId}' is changed: ` +
+        `${releasedNamespace.location} -> ${currentNamespace.location}`,
+      );
+    }
+    compareMembers(releasedNamespace.members, currentNamespace.members, "", { namespaceId, problems, renames });
+  }
+  if (problems.length > 0) {
+    throw new chai.AssertionError(`The storage layout is incompatible with the released one:\n${problems.join("\n")}`);
+  }
+  return renames;
+}
+
+function findStorageLayoutFiles(directory: string): string[] {
+  const result: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      result.push(...findStorageLayoutFiles(entryPath));
+    } else if (entry.isFile() && entry.name.endsWith("StorageLayout.sol")) {
+      result.push(entryPath);
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks that the storage location constants of the `*StorageLayout.sol` files of the package
+ * match the ERC-7201 formula for the namespaces annotated in the same files, in the order of declaration.
+ */
+export function checkStorageLocations(sourcesDirectory: string = config.paths.sources) {
+  const problems: string[] = [];
+  for (const file of findStorageLayoutFiles(sourcesDirectory)) {
+    const source = fs.readFileSync(file, "utf8");
+    const fileName = path.relative(sourcesDirectory, file);
+    const namespaceIds = [...source.matchAll(NAMESPACE_ANNOTATION)].map(match => match[1]);
+    const constants = [...source.matchAll(STORAGE_LOCATION_CONSTANT)].map(match => [match[1], match[2]]);
+    if (namespaceIds.length !== constants.length) {
+      problems.push(`${fileName}: ${namespaceIds.length} namespace(s), but ${constants.length} location constant(s)`);
+      continue;
+    }
+    namespaceIds.forEach((namespaceId, index) => {
+      const [constantName, value] = constants[index];
+      const expected = getErc7201StorageLocation(namespaceId);
+      if (value.toLowerCase() !== expected) {
+        problems.push(`${fileName}: ${constantName} is ${value}, but it must be ${expected} for '${namespaceId}'`);
+      }
+    });
+  }
+  if (problems.length > 0) {
+    throw new chai.AssertionError(`The storage locations do not match ERC-7201:\n${problems.join("\n")}`);
+  }
+}
+
+/**
+ * Reads the results of the getters without parameters that exist in both versions of the contract.
+ * The getters reverted through the proxy, like `proxiableUUID()`, are skipped.
+ */
+async function readGetters(
+  contract: Contract,
+  currentInterface: Interface,
+  ignoredGetters: string[],
+): Promise<Map<string, unknown>> {
+  const signatures: string[] = [];
+  contract.interface.forEachFunction((fragment) => {
+    const signature = fragment.format("sighash");
+    if (
+      fragment.constant &&
+      fragment.inputs.length === 0 &&
+      !ignoredGetters.includes(signature) &&
+      currentInterface.getFunction(signature)
+    ) {
+      signatures.push(signature);
+    }
+  });
+
+  const results = new Map<string, unknown>();
+  for (const signature of signatures) {
+    try {
+      const result = await contract[signature]();
+      results.set(signature, result instanceof Result ? result.toArray(true) : result);
+    } catch {
+      continue;
+    }
+  }
+  return results;
+}
+
+/**
+ * Tests the upgrade of a UUPS contract from its released implementation stored by `saveReleaseArtifact()`.
+ * The released implementation is deployed behind a proxy by the first Hardhat signer,
+ * which must be allowed to upgrade the contract after the initialization, like the owner.
+ */
+export function shouldUpgradeSafelyFromRelease<TState = undefined>(
+  releaseFile: string,
+  options: UpgradeSafetyOptions<TState> = {},
+) {
+  const release = readReleaseArtifact(releaseFile);
+  const contractName = options.contractName ?? release.contractName;
+  const ignoredGetters = options.ignoredGetters ?? ["$__VERSION()"];
+
+  describe(`Upgrading from the released '${release.contractName}' (${releaseFile})`, () => {
+    it("Keeps the locations and the members of the ERC-7201 namespaces", async () => {
+      const currentLayout = await getStorageLayoutSnapshot(contractName);
+      const renames = checkStorageLayoutCompatibility(release.storageLayout, currentLayout);
+      renames.forEach(rename => console.log(`      ${rename}`));
+    });
+
+    it("Declares the storage locations of the namespaces according to ERC-7201", () => {
+      checkStorageLocations();
+    });
+
+    it("Keeps the state written before the upgrade readable through the getters", async () => {
+      const [deployer] = await ethers.getSigners();
+      const releasedFactory = new ContractFactory(release.abi as string[], release.bytecode, deployer);
+      const releasedImplementation = await releasedFactory.deploy();
+      await releasedImplementation.waitForDeployment();
+      const initializerArgs = typeof options.initializerArgs === "function"
+        ? options.initializerArgs()
+        : options.initializerArgs ?? [];
+      const initializerData = releasedFactory.interface.getFunction("initialize")
+        ? releasedFactory.interface.encodeFunctionData("initialize", initializerArgs)
+        : "0x";
+      const proxy = await (await getProxyFactory(hre, deployer))
+        .deploy(await releasedImplementation.getAddress(), initializerData);
+      await proxy.waitForDeployment();
+      const proxyAddress = await proxy.getAddress();
+
+      const releasedContract = releasedFactory.attach(proxyAddress) as Contract;
+      const state = await options.setUpState?.(releasedContract) as TState;
+      const currentFactory = await ethers.getContractFactory(contractName, deployer);
+      const getterResults = await readGetters(releasedContract, currentFactory.interface, ignoredGetters);
+
+      const currentImplementation = await currentFactory.deploy();
+      await currentImplementation.waitForDeployment();
+      const currentImplementationAddress = await currentImplementation.getAddress();
+      await proveTx(releasedContract.upgradeToAndCall(currentImplementationAddress, "0x"));
+      expect(await upgrades.erc1967.getImplementationAddress(proxyAddress)).to.eq(currentImplementationAddress);
+
+      const currentContract = currentFactory.attach(proxyAddress) as Contract;
+      for (const [signature, releasedResult] of getterResults) {
+        const result = await currentContract[signature]();
+        expect(result instanceof Result ? result.toArray(true) : result).to.deep.equal(
+          releasedResult,
+          `The result of the '${signature}' getter is changed by the upgrade`,
+        );
+      }
+      await options.checkState?.(currentContract, state);
+    });
+  });
+}
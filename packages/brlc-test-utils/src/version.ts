@@ -0,0 +1,55 @@
+import fs from "node:fs";
+import path from "node:path";
+import { expect } from "chai";
+import { BaseContract, Contract } from "ethers";
+
+/**
+ * The version of a contract returned by its `$__VERSION()` function.
+ */
+export interface Version {
+  major: number;
+  minor: number;
+  patch: number;
+
+  [key: string]: number; // Indexing signature to ensure that fields are iterated over in a key-value style
+}
+
+// A version heading of a changelog, like `# 1.2.0` or `# 2.3`, the `# Unreleased` heading is skipped
+const CHANGELOG_VERSION_HEADING = /^#\s+v?(\d+)\.(\d+)(?:\.(\d+))?\s*$/m;
+
+/**
+ * Checks that the `$__VERSION()` function of the contract returns the expected version.
+ */
+export async function checkVersion(contract: Contract | BaseContract, expected: Version) {
+  const actual = await (contract as Contract).$__VERSION();
+  expect({
+    major: Number(actual.major),
+    minor: Number(actual.minor),
+    patch: Number(actual.patch),
+  }).to.deep.equal(expected, "The version returned by the '$__VERSION()' function is wrong");
+}
+
+/**
+ * Reads the version of the latest released entry of a changelog, i.e. the first heading like `# 1.2.0`.
+ * The relative path is resolved against the current directory, i.e. the package root when tests are run.
+ */
+export function getChangelogVersion(changelogFile = "CHANGELOG.md"): Version {
+  const changelog = fs.readFileSync(path.resolve(changelogFile), "utf8");
+  const match = CHANGELOG_VERSION_HEADING.exec(changelog);
+  if (!match) {
+    throw new Error(`No version entry is found in the changelog: ${changelogFile}`);
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+  };
+}
+
+/**
+ * Checks that the `$__VERSION()` function of the contract returns the version of the latest changelog entry,
+ * so a release entry added without bumping the contract version fails the tests.
+ */
+export async function checkVersionMatchesChangelog(contract: Contract | BaseContract, changelogFile = "CHANGELOG.md") {
+  await checkVersion(contract, getChangelogVersion(changelogFile));
+}
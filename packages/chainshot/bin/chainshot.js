@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/* eslint @typescript-eslint/no-require-imports: "off" */
+
+require("../dist/cli.js")
+  .main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+    return exitCode;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+  });
@@ -1,9 +1,34 @@
-import { type HardhatRuntimeEnvironment } from "hardhat/types";
-import type { BaseContract, Log, TransactionReceipt, FunctionFragment, AddressLike } from "ethers";
-import { getBigInt } from "ethers";
-import { normalizeAddress, normalizeAddressAsync, revertMap } from "./utils";
-
-type HREProvider = HardhatRuntimeEnvironment["ethers"]["provider"];
+import type {
+  Log,
+  TransactionReceipt,
+  AddressLike,
+  BlockTag,
+  ParamType,
+} from "ethers";
+import {
+  AbiCoder,
+  BaseContract,
+  FunctionFragment,
+  getBigInt,
+  Interface,
+  isAddress,
+  ZeroAddress,
+} from "ethers";
+import { RawCallFrame, traceTransaction } from "./callTrace";
+import type { InterceptedTransaction, ProviderAdapter, ScenarioProvider, TransactionRecorder } from "./interception";
+import type { RecordedTransaction } from "./replay";
+import { applyRoleEvent, collectRoleNames, collectRolesMatrix, resolveRoleNames, RolesMatrix } from "./roles";
+import { ScenarioValueFormatter, ValueNormalizer } from "./normalization";
+import {
+  collectKeyOrder,
+  extractRevertInfo,
+  formatTokenAmount,
+  normalizeAddress,
+  normalizeAddressAsync,
+  resultToRenderable,
+  revertMap,
+  stringifyValue,
+} from "./utils";
 
 type Renderable =
   string |
@@ -15,56 +40,178 @@ type Renderable =
   Renderable[] |
   { [key: string]: Renderable };
 
+export interface ScenarioGasConfig {
+  budget?: bigint; // maximum total gas used by all steps of the scenario
+  regressionThreshold?: number; // percent of growth against the stored gas snapshot that fails the scenario
+}
+
 export interface ScenarioConfig {
   customState?: Record<string, (txReceipt: TransactionReceipt) => Promise<Renderable>>;
   name?: string;
   accounts: Record<string, AddressLike>;
   contracts: Record<string, BaseContract>;
   tokens: Record<string, BaseContract>;
+  gas?: boolean | ScenarioGasConfig;
+  formatTokenAmounts?: boolean; // render balances and transfers in token units, the machine snapshot keeps raw values
+  balanceDeltas?: boolean; // render only changed balances per step and the full balances of the initial state
+  callTrace?: boolean | ScenarioCallTraceConfig;
+  viewFunctions?: Record<string, ScenarioViewFunction[]>; // contract label -> view functions to render the state of
+  roles?: boolean; // keep the matrix of role holders and render it at the end of the scenario
+  normalize?: boolean; // alias unlabeled addresses as `Unknown#N` and render timestamps relative to the scenario start
+  formatters?: Record<string, ScenarioValueFormatter>; // argument or field name -> formatter of its values
+  factories?: Record<string, ScenarioContractFactory>; // contract label -> factory to recognize deployments
+  record?: boolean; // store the transactions to replay them against another implementation
 }
 
-interface ScenarioEventRecord {
+/**
+ * The interface and the creation bytecode of a contract, like an ethers or TypeChain contract factory.
+ */
+export interface ScenarioContractFactory {
+  interface: Interface;
+  bytecode: string;
+}
+
+/**
+ * A view function signature, e.g. `"pendingCashOutCounter()"`, optionally with the call arguments.
+ * If a function with a single input is given without arguments, it is called with every value of that type
+ * passed to the contract by the scenario transactions, e.g. `"getCashOut(bytes32)"` for every cash-out id.
+ */
+export type ScenarioViewFunction = string | [signature: string, ...args: unknown[]];
+
+export interface ScenarioCallTraceConfig {
+  staticCalls?: boolean; // include view calls into the trace, they are skipped by default
+}
+
+export interface TokenUnits {
+  decimals: number;
+  symbol: string;
+}
+
+export interface ScenarioEventRecord {
   contract: string;
   name: string;
   args: unknown[];
+  argNames?: string[]; // names of the event inputs for the reports, they are not a part of the machine snapshot
 }
 
-export interface ScenarioLogRecord {
-  type: "methodCall" | "initialState";
-  methodFragment: FunctionFragment;
+export interface ScenarioErrorRecord {
+  contract?: string; // undefined for the built-in `Error(string)` and `Panic(uint256)` errors
+  name: string;
+  args: unknown[];
+}
+
+export interface ScenarioCallTraceRecord {
+  type: string; // CALL, STATICCALL, etc.
   caller: string;
   contract: string;
+  method: string; // the function name or the selector if the call cannot be decoded
+  args: unknown[];
+  argsUnavailable?: boolean; // the input is not fully traced, so the arguments are not decoded
+  reverted?: boolean;
+  calls: ScenarioCallTraceRecord[];
+}
+
+export interface ScenarioGasRecord {
+  used: bigint;
+  price: bigint; // effective gas price
+  delta?: bigint; // difference with the stored gas snapshot
+}
+
+export type ScenarioBalances = Record<string, Record<string, bigint>>; // token -> holder -> balance
+
+export interface ScenarioInitialStateRecord {
+  type: "initialState";
+  balances: ScenarioBalances;
+  state?: Record<string, Renderable>;
+}
+
+export interface ScenarioLogRecord {
+  type: "methodCall" | "revertedCall" | "deployment";
+  methodFragment: FunctionFragment; // a `constructor` pseudo-function for deployments
+  caller: string;
+  contract: string; // the factory label or the address of the deployed contract for deployments
   args: unknown[];
-  balances: Record<string, Record<string, bigint>>;
+  balances: ScenarioBalances;
   events: ScenarioEventRecord[];
+  error?: ScenarioErrorRecord;
+  gas?: ScenarioGasRecord;
+  calls?: ScenarioCallTraceRecord[]; // internal calls made by the transaction
+  state?: Record<string, Renderable>; // results of the configured view functions
   customState?: Record<string, Renderable>;
 }
 
-export type ScenarioLogs = ScenarioLogRecord[] & { [ScenarioLogsSymbol]?: true };
+const RECEIPT_POLLING_ATTEMPTS = 50;
+const RECEIPT_POLLING_INTERVAL_MS = 100;
+
+const builtinErrorsInterface = new Interface([]);
+
+export type ScenarioLogs = (ScenarioLogRecord | ScenarioInitialStateRecord)[] & { [ScenarioLogsSymbol]?: true };
+
+/**
+ * The first record of the machine snapshot with what the reports need besides the logs,
+ * so they can be regenerated from the snapshot file, where the tests and the object keys are sorted.
+ */
+export interface ScenarioInfoRecord {
+  type: "scenario";
+  name: string;
+  position: number[]; // indexes of the suites and of the test in the test file, the order of the report
+  keyOrder: Record<string, string[]>; // see `collectKeyOrder()`
+  eventArgNames: Record<string, string[]>; // `contract.Event` -> names of the event inputs
+  roleNames: Record<string, string>; // role hash -> role constant name
+  tokenUnits?: Record<string, TokenUnits>; // with the `formatTokenAmounts` option
+}
+
+export type ScenarioSnapshot = [ScenarioInfoRecord, ...ScenarioLogs];
 
 export const ScenarioLogsSymbol = Symbol("ScenarioLogs");
-export class Scenario {
+
+/**
+ * The part of a scenario used by the reports. Besides the scenarios captured by the tests,
+ * it is implemented by the scenarios restored from the stored snapshots, see `StoredScenario`.
+ */
+export interface RenderableScenario {
+  name: string;
+  config: Pick<ScenarioConfig, "gas" | "formatTokenAmounts" | "balanceDeltas">;
+  logs: ScenarioLogs;
+  roles: RolesMatrix;
+  readonly tokenNames: string[];
+  readonly callLogs: ScenarioLogRecord[];
+  readonly initialState: ScenarioInitialStateRecord | undefined;
+  formatTokenAmount(tokenName: string, amount: unknown, signed?: boolean): string;
+  resolveRoleNames<T>(data: T): T;
+}
+
+export class Scenario implements RenderableScenario, TransactionRecorder {
   public test: Mocha.Test;
   public name: string;
   public config: ScenarioConfig;
   public logs: ScenarioLogs = [] as ScenarioLogs;
+  public tokenUnits: Record<string, TokenUnits> = {};
+  public roleNames: Record<string, string> = {}; // role hash -> role constant name
+  public roles: RolesMatrix = {}; // role holders, updated with every step
+  public startBalances: ScenarioBalances = {}; // balances before the first transaction of the scenario
+  public startTimestamp = 0; // timestamp of the latest block before the first transaction of the scenario
+  public recordedTransactions: RecordedTransaction[] = []; // filled if the `record` option is enabled
 
   private addressToContract: Record<string, string> = {};
   private addressToToken: Record<string, string> = {};
   private addressToAccount: Record<string, string> = {};
-  private originalSend: HREProvider["send"];
+  private deployedContracts: Record<string, BaseContract> = {}; // factory label -> deployed contract
+  private restoreProviderFn: (() => void) | undefined;
   private decimalsCache: Record<string, number> = {};
+  private observedArgs: Record<string, Record<string, unknown[]>> = {}; // contract -> ABI type -> passed values
+  private normalizer = new ValueNormalizer({});
+  private unknownAddresses: Record<string, string> = {}; // unlabeled address -> `Unknown#N` alias
   private initializedPromise: Promise<void> | undefined;
 
   constructor(
-    private hre: HardhatRuntimeEnvironment,
+    private provider: ScenarioProvider,
     public options: {
       test: Mocha.Test;
       config: ScenarioConfig;
       name?: string;
     },
   ) {
-    this.originalSend = this.hre.ethers.provider.send.bind(this.hre.ethers.provider);
     this.config = options.config;
     this.test = options.test;
     this.config = options.config;
@@ -80,6 +227,41 @@ export class Scenario {
     this.addressToContract = await revertMap(this.config.contracts, normalizeAddressAsync);
     this.addressToToken = await revertMap(this.config.tokens, normalizeAddressAsync);
     this.addressToAccount = await revertMap(this.config.accounts, normalizeAddressAsync);
+    this.startTimestamp = (await this.provider.getBlock("latest"))?.timestamp ?? 0;
+    this.normalizer = new ValueNormalizer(
+      this.config.formatters ?? {},
+      this.config.normalize ? BigInt(this.startTimestamp) : undefined,
+    );
+    this.roleNames = await collectRoleNames(this.provider, this.getAllContracts());
+    if (this.config.roles) {
+      this.roles = this.aliasUnknownAddresses(await collectRolesMatrix(
+        this.provider,
+        this.getAllContracts(),
+        this.roleNames,
+        await this.getAllBalanceHolders(),
+        "latest",
+      ));
+    }
+    this.startBalances = await this.getBalances("latest");
+    if (this.config.balanceDeltas) {
+      const initialState: ScenarioInitialStateRecord = {
+        type: "initialState",
+        balances: this.startBalances,
+      };
+      const state = await this.getViewFunctionsState("latest");
+      if (state) {
+        initialState.state = state;
+      }
+      this.logs.push(this.aliasUnknownAddresses(initialState));
+    }
+    if (this.config.formatTokenAmounts) {
+      for (const [name, tokenContract] of Object.entries(this.config.tokens)) {
+        this.tokenUnits[name] = {
+          decimals: await this.decimals(tokenContract),
+          symbol: await this.symbol(tokenContract) ?? name,
+        };
+      }
+    }
   }
 
   public async waitForInitialization() {
@@ -100,27 +282,156 @@ export class Scenario {
     return titlesStack.filter(title => !!title).reverse().join(" > ");
   }
 
-  injectIntoProvider(provider: HREProvider) {
-    this.originalSend = provider.send.bind(provider);
-    provider.send = async (...args) => {
-      if (args[0] === "eth_sendTransaction" && args[1] !== undefined && args[1][0] !== undefined) {
-        const transaction = args[1][0] as unknown as { from: string; to: string; data: string };
-        const txHash = await this.originalSend.call(provider, ...args);
-        await this.processTx(transaction, txHash);
-        return txHash;
+  injectIntoProvider(adapter: ProviderAdapter) {
+    this.restoreProviderFn = adapter.intercept(this);
+  }
+
+  restoreProvider() {
+    this.restoreProviderFn?.();
+    this.restoreProviderFn = undefined;
+  }
+
+  get gasConfig(): ScenarioGasConfig | undefined {
+    const { gas } = this.config;
+    if (!gas) {
+      return;
+    }
+    return gas === true ? {} : gas;
+  }
+
+  /**
+   * Logs for the machine snapshot. Gas is excluded from them, because it is compared with a threshold
+   * against the gas snapshot instead of an exact match. Event argument names are excluded too,
+   * so renaming an event input does not change the snapshot.
+   */
+  getSnapshotLogs(): ScenarioLogs {
+    const logs = this.logs.map((log) => {
+      if (log.type === "initialState") {
+        return log;
       }
-      return this.originalSend.call(provider, ...args);
+      const { gas, ...logWithoutGas } = log;
+      return { ...logWithoutGas, events: log.events.map(({ argNames, ...event }) => event) };
+    }) as ScenarioLogs;
+    logs[ScenarioLogsSymbol] = true;
+    return logs;
+  }
+
+  /**
+   * Returns the machine snapshot: the info of the scenario followed by its logs.
+   */
+  getSnapshot(): ScenarioSnapshot {
+    const eventArgNames: Record<string, string[]> = {};
+    for (const log of this.callLogs) {
+      for (const event of log.events) {
+        if (event.argNames) {
+          eventArgNames[`${event.contract}.${event.name}`] = event.argNames;
+        }
+      }
+    }
+    const logs = this.getSnapshotLogs();
+    const info: ScenarioInfoRecord = {
+      type: "scenario",
+      name: this.name,
+      position: this.getTestPosition(),
+      keyOrder: collectKeyOrder(logs),
+      eventArgNames,
+      roleNames: this.roleNames,
     };
+    if (this.config.formatTokenAmounts) {
+      info.tokenUnits = this.tokenUnits;
+    }
+    return [info, ...logs];
+  }
+
+  // the positions among the suites of other test files are not counted, they depend on the files run
+  private getTestPosition(): number[] {
+    const position: number[] = [];
+    let suite = this.test.parent;
+    let item: Mocha.Test | Mocha.Suite = this.test;
+    while (suite) {
+      const siblings: (Mocha.Test | Mocha.Suite)[] = item === this.test
+        ? suite.tests
+        : suite.suites.filter(sibling => sibling.file === item.file);
+      position.unshift(siblings.indexOf(item));
+      item = suite;
+      suite = suite.parent;
+    }
+    return position;
+  }
+
+  /**
+   * Records of the sent transactions, without the initial state.
+   */
+  get callLogs(): ScenarioLogRecord[] {
+    return this.logs.filter(log => log.type !== "initialState");
+  }
+
+  get initialState(): ScenarioInitialStateRecord | undefined {
+    return this.logs.find(log => log.type === "initialState");
   }
 
-  restoreProvider(provider: HREProvider) {
-    provider.send = this.originalSend;
+  get tokenNames(): string[] {
+    return Object.keys(this.config.tokens);
+  }
+
+  private getGasRecord(txReceipt: TransactionReceipt): ScenarioGasRecord | undefined {
+    if (!this.gasConfig) {
+      return;
+    }
+    return { used: txReceipt.gasUsed, price: txReceipt.gasPrice };
+  }
+
+  private decodeCallFrames(frames: RawCallFrame[]): ScenarioCallTraceRecord[] {
+    const { callTrace } = this.config;
+    const staticCalls = typeof callTrace === "object" && callTrace.staticCalls;
+    return frames.flatMap((frame): ScenarioCallTraceRecord[] => {
+      const calls = this.decodeCallFrames(frame.calls ?? []);
+      if (frame.type === "DELEGATECALL") {
+        // proxies delegate to their implementations, so the nested calls are attributed to the proxy
+        return calls;
+      }
+      if (frame.type === "STATICCALL" && !staticCalls) {
+        return [];
+      }
+      const contract = this.resolveAddress(frame.to);
+      // the creation code with the constructor arguments is not decoded
+      const isCreation = frame.type === "CREATE" || frame.type === "CREATE2";
+      const contractInstance = this.getContractInstance(contract);
+      const parsedData = isCreation ? null : contractInstance?.interface.parseTransaction({ data: frame.input });
+      const record: ScenarioCallTraceRecord = {
+        type: frame.type,
+        caller: this.resolveAddress(frame.from),
+        contract,
+        method: isCreation ? "constructor" : parsedData?.name ?? frame.input.slice(0, 10),
+        args: parsedData && !frame.partialInput ? this.decodeArgs(parsedData.fragment.inputs, parsedData.args) : [],
+        calls,
+      };
+      if (parsedData && frame.partialInput) {
+        record.argsUnavailable = true;
+      }
+      if (frame.error) {
+        record.reverted = true;
+      }
+      return [record];
+    });
+  }
+
+  private async getCallTrace(txHash: string): Promise<ScenarioCallTraceRecord[] | undefined> {
+    if (!this.config.callTrace) {
+      return;
+    }
+    const rootFrame = await traceTransaction(this.provider, txHash);
+    return this.decodeCallFrames(rootFrame.calls ?? []);
   }
 
   private getAllContracts(): Record<string, BaseContract> {
     return { ...this.config.contracts, ...this.config.tokens };
   }
 
+  private getContractInstance(name: string): BaseContract | undefined {
+    return this.config.contracts[name] || this.config.tokens[name] || this.deployedContracts[name];
+  }
+
   private async getAllBalanceHolders(): Promise<Record<string, string>> {
     const balanceHolders: Record<string, string> = {};
     for (const [name, contract] of Object.entries(this.getAllContracts())) {
@@ -135,7 +446,7 @@ export class Scenario {
   tryParseContractEvent(log: Log): ScenarioEventRecord | undefined {
     const contractAddress = normalizeAddress(log.address);
     const contractName = this.addressToContract[contractAddress] || this.addressToToken[contractAddress];
-    const contractInstance = this.config.contracts[contractName] || this.config.tokens[contractName];
+    const contractInstance = this.getContractInstance(contractName);
 
     if (!contractInstance) {
       return;
@@ -144,22 +455,50 @@ export class Scenario {
     if (contractEvent) {
       return {
         name: contractEvent.name,
-        args: this.resolveAddressDeep(contractEvent.args),
+        args: this.decodeArgs(contractEvent.fragment.inputs, contractEvent.args),
+        argNames: contractEvent.fragment.inputs.map((input, index) => input.name || String(index)),
         contract: contractName,
       };
     }
   }
 
-  private async decimals(tokenContract: BaseContract) {
-    if (this.decimalsCache[tokenContract.target as string]) {
-      return this.decimalsCache[tokenContract.target as string];
+  private async decimals(tokenContract: BaseContract): Promise<number> {
+    const tokenAddress = await normalizeAddressAsync(tokenContract.target);
+    if (this.decimalsCache[tokenAddress] !== undefined) {
+      return this.decimalsCache[tokenAddress];
     }
-    const decimals = (await this.hre.ethers.provider.call({
+    const result = await this.provider.call({
       to: tokenContract.target,
       data: tokenContract.interface.encodeFunctionData("decimals"),
-    })) as unknown as number;
-    this.decimalsCache[tokenContract.target as string] = decimals;
-    return Number(getBigInt(decimals));
+    });
+    const [decimals] = tokenContract.interface.decodeFunctionResult("decimals", result);
+    this.decimalsCache[tokenAddress] = Number(getBigInt(decimals));
+    return this.decimalsCache[tokenAddress];
+  }
+
+  private async symbol(tokenContract: BaseContract): Promise<string | undefined> {
+    if (!tokenContract.interface.getFunction("symbol")) {
+      return;
+    }
+    try {
+      const result = await this.provider.call({
+        to: tokenContract.target,
+        data: tokenContract.interface.encodeFunctionData("symbol"),
+      });
+      const [symbol] = tokenContract.interface.decodeFunctionResult("symbol", result);
+      return String(symbol);
+    } catch {
+      return;
+    }
+  }
+
+  /**
+   * Formats a raw token amount for the human report, e.g. `BRLC 1.25` for `1250000n` with 6 decimals.
+   * Returns the raw amount if the `formatTokenAmounts` option is disabled or the token is unknown.
+   * The `signed` flag prefixes positive amounts with `+`, e.g. for balance deltas.
+   */
+  formatTokenAmount(tokenName: string, amount: unknown, signed = false): string {
+    return formatTokenAmount(this.tokenUnits[tokenName], amount, signed);
   }
 
   getTxLogs(txReceipt: TransactionReceipt): ScenarioEventRecord[] {
@@ -168,17 +507,16 @@ export class Scenario {
       .filter(event => !!event);
   }
 
-  async getBalances(txReceipt: TransactionReceipt) {
-    const blockHash = txReceipt.blockHash;
+  async getBalances(blockTag: BlockTag) {
     const balances: Record<string, Record<string, bigint>> = {};
     for (const [name, tokenContract] of Object.entries(this.config.tokens)) {
       const tokenBalances: Record<string, bigint> = {};
 
       const getBalanceForToken = async (accountAddress: string) => {
-        return getBigInt(await this.hre.ethers.provider.call({
+        return getBigInt(await this.provider.call({
           to: tokenContract.target,
           data: tokenContract.interface.encodeFunctionData("balanceOf", [accountAddress]),
-          blockTag: blockHash,
+          blockTag,
         }));
       };
 
@@ -202,40 +540,272 @@ export class Scenario {
     return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
   }
 
-  async processTx(data: { from: string; to: string; data: string }, txHash: string) {
+  decodeError(data: string | undefined): ScenarioErrorRecord {
+    if (!data || data.length < 10) {
+      return { name: "UnknownError", args: data && data !== "0x" ? [data] : [] };
+    }
+    const builtinError = builtinErrorsInterface.parseError(data);
+    if (builtinError) {
+      return { name: builtinError.name, args: this.decodeArgs(builtinError.fragment.inputs, builtinError.args) };
+    }
+    for (const [name, contract] of Object.entries({ ...this.getAllContracts(), ...this.deployedContracts })) {
+      const contractError = contract.interface.parseError(data);
+      if (contractError) {
+        return {
+          contract: name,
+          name: contractError.name,
+          args: this.decodeArgs(contractError.fragment.inputs, contractError.args),
+        };
+      }
+    }
+    return { name: "UnknownError", args: [data] };
+  }
+
+  private observeArgs(contract: string, methodFragment: FunctionFragment, args: readonly unknown[]) {
+    const observedArgs = this.observedArgs[contract] ??= {};
+    methodFragment.inputs.forEach((input, index) => {
+      const values = observedArgs[input.type] ??= [];
+      if (!values.some(value => String(value) === String(args[index]))) {
+        values.push(args[index]);
+      }
+    });
+  }
+
+  private getViewFunctionCalls(contractName: string, contract: BaseContract, viewFunction: ScenarioViewFunction) {
+    const [signature, ...args] = Array.isArray(viewFunction) ? viewFunction : [viewFunction];
+    const fragment = contract.interface.getFunction(signature);
+    if (!fragment) {
+      throw new Error(`View function "${signature}" is not found in the "${contractName}" contract`);
+    }
+    if (Array.isArray(viewFunction) || fragment.inputs.length === 0) {
+      return [{ fragment, args }];
+    }
+    if (fragment.inputs.length > 1) {
+      throw new Error(`View function "${signature}" of the "${contractName}" contract requires arguments`);
+    }
+    const observedValues = this.observedArgs[contractName]?.[fragment.inputs[0].type] ?? [];
+    return observedValues.map(value => ({ fragment, args: [value] }));
+  }
+
+  async getViewFunctionsState(blockTag: BlockTag): Promise<Record<string, Renderable> | undefined> {
+    const { viewFunctions } = this.config;
+    if (!viewFunctions) {
+      return;
+    }
+    const state: Record<string, Renderable> = {};
+    for (const [contractName, functions] of Object.entries(viewFunctions)) {
+      const contract = this.getAllContracts()[contractName];
+      if (!contract) {
+        throw new Error(`Contract "${contractName}" of the view functions is not found in the scenario config`);
+      }
+      for (const { fragment, args } of functions.flatMap(f => this.getViewFunctionCalls(contractName, contract, f))) {
+        const result = await this.provider.call({
+          to: contract.target,
+          data: contract.interface.encodeFunctionData(fragment, args),
+          blockTag,
+        });
+        const keyArgs = this.aliasUnknownAddresses(this.decodeArgs(fragment.inputs, args));
+        const key = args.length
+          ? `${contractName}.${fragment.name}(${keyArgs.map(stringifyValue).join(", ")})`
+          : `${contractName}.${fragment.name}`;
+        const decoded = contract.interface.decodeFunctionResult(fragment, result);
+        state[key] = this.normalizer.normalizeFields(
+          fragment.name,
+          this.resolveAddressDeep(resultToRenderable(decoded, fragment.outputs)),
+        ) as Renderable;
+      }
+    }
+    return state;
+  }
+
+  private findFactory(initCode: string): [string, ScenarioContractFactory] | undefined {
+    return Object.entries(this.config.factories ?? {})
+      .find(([, factory]) => initCode.toLowerCase().startsWith(factory.bytecode.toLowerCase()));
+  }
+
+  /**
+   * Registers the contract deployed with a known factory, so its calls, events and errors are decoded.
+   */
+  private registerDeployedContract(data: InterceptedTransaction, contractAddress: string | null) {
+    const [name, factory] = this.findFactory(data.data) ?? [];
+    if (name && factory && contractAddress) {
+      this.addressToContract[contractAddress.toLowerCase()] = name;
+      this.deployedContracts[name] = new BaseContract(contractAddress, factory.interface);
+    }
+  }
+
+  /**
+   * Decodes the constructor arguments if the deployed bytecode belongs to one of the configured factories.
+   */
+  private parseDeployment(data: InterceptedTransaction, contractAddress: string | null | undefined) {
+    const [name, factory] = this.findFactory(data.data) ?? [];
+    const inputs = factory?.interface.deploy.inputs ?? [];
+    const args = factory
+      ? AbiCoder.defaultAbiCoder().decode(inputs, "0x" + data.data.slice(factory.bytecode.length))
+      : [];
+    return {
+      methodFragment: FunctionFragment.from({
+        type: "function",
+        name: "constructor",
+        inputs,
+        outputs: [],
+        stateMutability: factory?.interface.deploy.payable ? "payable" : "nonpayable",
+      }),
+      args: this.decodeArgs(inputs, args),
+      caller: this.resolveAddress(data.from),
+      contract: name ?? (contractAddress ? this.resolveAddress(contractAddress) : "unknown"),
+    };
+  }
+
+  private parseMethodCall(data: InterceptedTransaction, contractAddress?: string | null) {
+    if (data.to === undefined) {
+      return this.parseDeployment(data, contractAddress);
+    }
     const caller = this.resolveAddress(data.from);
     const contract = this.resolveAddress(data.to);
-    const contractInstance: BaseContract | undefined = this.config.contracts[contract] || this.config.tokens[contract];
+    const contractInstance = this.getContractInstance(contract);
     const parsedData = contractInstance?.interface.parseTransaction({ data: data.data });
     const methodFragment = parsedData?.fragment as FunctionFragment;
     if (!methodFragment) {
       throw new Error("Failed to parse method fragment");
     }
     const args = parsedData?.args;
-    const txReceipt = await this.hre.ethers.provider.getTransactionReceipt(txHash);
+    if (args) {
+      this.observeArgs(contract, methodFragment, args);
+    }
+    return {
+      methodFragment: methodFragment,
+      args: args ? this.decodeArgs(methodFragment.inputs, args) : [],
+      caller: caller,
+      contract: contract,
+    };
+  }
+
+  async processTx(data: InterceptedTransaction, txHash: string) {
+    const txReceipt = await this.waitForReceipt(txHash);
     if (txReceipt === null) {
-      // TODO maybe log it with fail status??
       console.warn("Transaction receipt is null", txHash);
       return;
-      // throw new Error("Transaction receipt is null");
     }
-    const [balances, customState] = await Promise.all([
-      this.getBalances(txReceipt),
+    if (txReceipt.status === 0) {
+      // the network did not throw on the failed transaction, so the revert data is restored by a call
+      return this.processRevertedTx(data, txHash, await this.getRevertData(data, txReceipt));
+    }
+    await this.recordTransaction(data, txReceipt);
+    if (data.to === undefined) {
+      this.registerDeployedContract(data, txReceipt.contractAddress);
+    }
+    const methodCall = this.parseMethodCall(data, txReceipt.contractAddress);
+    const [balances, customState, calls, state] = await Promise.all([
+      this.getBalances(txReceipt.blockNumber),
       this.getCustomState(txReceipt),
+      this.getCallTrace(txHash),
+      this.getViewFunctionsState(txReceipt.blockNumber),
     ]);
     const log: ScenarioLogRecord = {
-      type: "methodCall",
-      methodFragment: methodFragment,
-      args: args ? this.resolveAddressDeep(args) : [],
-      caller: caller,
-      contract: contract,
+      type: data.to === undefined ? "deployment" : "methodCall",
+      ...methodCall,
       balances,
       events: this.getTxLogs(txReceipt),
+      gas: this.getGasRecord(txReceipt),
     };
+    if (calls) {
+      log.calls = calls;
+    }
+    if (state) {
+      log.state = state;
+    }
     if (customState) {
       log.customState = customState;
     }
-    this.logs.push(log);
+    const aliasedLog = this.aliasUnknownAddresses(log);
+    if (this.config.roles) {
+      // the holders are taken from the aliased events to match the `Unknown#N` aliases of the report
+      for (const event of aliasedLog.events) {
+        applyRoleEvent(this.roles, this.roleNames, event);
+      }
+    }
+    this.logs.push(aliasedLog);
+  }
+
+  async processRevertedTx(
+    data: InterceptedTransaction,
+    txHash: string | undefined,
+    revertData: string | undefined,
+  ) {
+    const txReceipt = txHash ? await this.waitForReceipt(txHash) : null;
+    await this.recordTransaction(data, txReceipt);
+    const methodCall = this.parseMethodCall(data, txReceipt?.contractAddress);
+    const [balances, customState, calls, state] = await Promise.all([
+      this.getBalances(txReceipt?.blockNumber ?? "latest"),
+      txReceipt ? this.getCustomState(txReceipt) : undefined,
+      txReceipt ? this.getCallTrace(txReceipt.hash) : undefined,
+      this.getViewFunctionsState(txReceipt?.blockNumber ?? "latest"),
+    ]);
+    const log: ScenarioLogRecord = {
+      type: data.to === undefined ? "deployment" : "revertedCall",
+      ...methodCall,
+      balances,
+      events: [],
+      error: this.decodeError(revertData),
+      gas: txReceipt ? this.getGasRecord(txReceipt) : undefined,
+    };
+    if (calls) {
+      log.calls = calls;
+    }
+    if (state) {
+      log.state = state;
+    }
+    if (customState) {
+      log.customState = customState;
+    }
+    this.logs.push(this.aliasUnknownAddresses(log));
+  }
+
+  private async recordTransaction(data: InterceptedTransaction, txReceipt: TransactionReceipt | null) {
+    if (!this.config.record) {
+      return;
+    }
+    // a transaction rejected by the gas estimation has no block, it would be mined in the next one
+    const block = await this.provider.getBlock(txReceipt?.blockNumber ?? "latest");
+    this.recordedTransactions.push({
+      caller: this.resolveAddress(data.from),
+      target: data.to !== undefined ? this.resolveAddress(data.to) : undefined,
+      data: data.data,
+      value: (data.value ?? 0n).toString(),
+      timeOffset: (block?.timestamp ?? this.startTimestamp) - this.startTimestamp,
+    });
+  }
+
+  /**
+   * Returns the receipt of a sent transaction. Hardhat mines it before returning the hash,
+   * while Stratus may return the hash a bit earlier, so the receipt is polled for a while.
+   */
+  private async waitForReceipt(txHash: string): Promise<TransactionReceipt | null> {
+    for (let attempt = 0; attempt < RECEIPT_POLLING_ATTEMPTS; attempt++) {
+      const txReceipt = await this.provider.getTransactionReceipt(txHash);
+      if (txReceipt !== null) {
+        return txReceipt;
+      }
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLLING_INTERVAL_MS));
+    }
+    return null;
+  }
+
+  private async getRevertData(
+    data: InterceptedTransaction,
+    txReceipt: TransactionReceipt,
+  ): Promise<string | undefined> {
+    try {
+      await this.provider.call({
+        from: data.from,
+        to: data.to,
+        data: data.data,
+        blockTag: txReceipt.blockNumber - 1,
+      });
+    } catch (error) {
+      return extractRevertInfo(error).data;
+    }
   }
 
   resolveAddress(address: string): string {
@@ -246,6 +816,14 @@ export class Scenario {
       normalizedAddress;
   }
 
+  /**
+   * Returns the address of an account, contract or token label, or the given value if it is not a label.
+   */
+  resolveLabel(label: string): string {
+    const labels = { ...this.addressToAccount, ...this.addressToContract, ...this.addressToToken };
+    return Object.keys(labels).find(address => labels[address] === label) ?? label;
+  }
+
   resolveAddressDeep<T>(data: T): T {
     if (typeof data === "string") {
       return this.resolveAddress(data) as T;
@@ -261,6 +839,46 @@ export class Scenario {
     return data;
   }
 
+  /**
+   * Replaces the unlabeled addresses with `Unknown#N` aliases in order of first appearance
+   * if the `normalize` option is enabled. Method fragments and other class instances are kept as is.
+   */
+  aliasUnknownAddresses<T>(data: T): T {
+    if (!this.config.normalize) {
+      return data;
+    }
+    if (typeof data === "string") {
+      if (!isAddress(data) || data.toLowerCase() === ZeroAddress) {
+        return data;
+      }
+      const resolved = this.resolveAddress(data);
+      if (resolved !== data.toLowerCase()) {
+        return resolved as T;
+      }
+      return (this.unknownAddresses[resolved] ??= `Unknown#${Object.keys(this.unknownAddresses).length + 1}`) as T;
+    }
+    if (Array.isArray(data)) {
+      return data.map(item => this.aliasUnknownAddresses(item)) as T;
+    }
+    if (typeof data === "object" && data !== null && Object.getPrototypeOf(data) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [key, this.aliasUnknownAddresses(value)]),
+      ) as T;
+    }
+    return data;
+  }
+
+  private decodeArgs(params: readonly ParamType[], values: readonly unknown[]): unknown[] {
+    return this.normalizer.normalizeParams(params, this.resolveAddressDeep([...values]));
+  }
+
+  /**
+   * Replaces the known role hashes with the role constant names, e.g. for the human report.
+   */
+  resolveRoleNames<T>(data: T): T {
+    return resolveRoleNames(this.roleNames, data);
+  }
+
   printLogs() {
     console.table(this.logs, ["type", "caller", "contract", "name", "args"]);
   }
@@ -0,0 +1,57 @@
+import type {
+  RenderableScenario,
+  ScenarioInfoRecord,
+  ScenarioInitialStateRecord,
+  ScenarioLogRecord,
+  ScenarioLogs,
+} from "./Scenario";
+import { resolveRoleNames, RolesMatrix } from "./roles";
+import { formatTokenAmount } from "./utils";
+
+/**
+ * A scenario restored from a stored snapshot, to render the reports without running the tests.
+ * The snapshot keeps the logs and the scenario info, so the gas and the roles matrix are not available.
+ * The snapshots without the info also lack the token units, the role names and the event argument names.
+ */
+export class StoredScenario implements RenderableScenario {
+  public config: RenderableScenario["config"];
+  public roles: RolesMatrix = {};
+
+  constructor(
+    public name: string,
+    public logs: ScenarioLogs,
+    public info?: ScenarioInfoRecord,
+  ) {
+    this.config = {
+      balanceDeltas: logs.some(log => log.type === "initialState"),
+      formatTokenAmounts: !!info?.tokenUnits,
+    };
+    for (const event of this.callLogs.flatMap(log => log.events)) {
+      const argNames = info?.eventArgNames[`${event.contract}.${event.name}`];
+      if (argNames) {
+        event.argNames = argNames;
+      }
+    }
+  }
+
+  get callLogs(): ScenarioLogRecord[] {
+    return this.logs.filter(log => log.type !== "initialState");
+  }
+
+  get initialState(): ScenarioInitialStateRecord | undefined {
+    return this.logs.find(log => log.type === "initialState");
+  }
+
+  get tokenNames(): string[] {
+    // every step keeps the balances of all the scenario tokens
+    return Object.keys(this.logs[0]?.balances ?? {});
+  }
+
+  formatTokenAmount(tokenName: string, amount: unknown, signed = false): string {
+    return formatTokenAmount(this.info?.tokenUnits?.[tokenName], amount, signed);
+  }
+
+  resolveRoleNames<T>(data: T): T {
+    return resolveRoleNames(this.info?.roleNames ?? {}, data);
+  }
+}
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { RawCallFrame, structLogsToCallFrame } from "./callTrace";
+
+const DESK = "0x00000000000000000000000000000000000000d1";
+const TOKEN = "0x00000000000000000000000000000000000000a1";
+const IMPLEMENTATION = "0x00000000000000000000000000000000000000b1";
+const CREATED = "0x00000000000000000000000000000000000000c1";
+
+function word(hex: string): string {
+  return hex.replace(/^0x/, "").padStart(64, "0");
+}
+
+function createRoot(): RawCallFrame {
+  return { type: "CALL", from: "0x00000000000000000000000000000000000000e1", to: DESK, input: "0x12345678", calls: [] };
+}
+
+describe("callTrace", () => {
+  describe("structLogsToCallFrame()", () => {
+    it("restores the nested calls with the inputs read by CALLDATALOAD", () => {
+      // the stack of a call from the top: gas, address, value, input offset, input length
+      const structLogs = [
+        { op: "CALL", depth: 1, stack: [word("0x24"), word("0x0"), word("0x0"), word(TOKEN), word("0xffff")] },
+        { op: "CALLDATALOAD", depth: 2, stack: [word("0x0")] },
+        { op: "PUSH1", depth: 2, stack: [word("0xa9059cbb" + "00".repeat(28))] },
+        { op: "CALLDATALOAD", depth: 2, stack: [word("0x4")] },
+        { op: "PUSH1", depth: 2, stack: [word("0x64")] },
+        { op: "STOP", depth: 2, stack: [] },
+        { op: "STOP", depth: 1, stack: [word("0x1")] },
+      ];
+
+      const frame = structLogsToCallFrame(createRoot(), structLogs);
+
+      expect(frame.calls).to.deep.equal([{
+        type: "CALL",
+        from: DESK,
+        to: TOKEN,
+        input: "0xa9059cbb" + word("0x64"),
+        calls: [],
+      }]);
+    });
+
+    it("marks the inputs with the arguments copied by CALLDATACOPY as partial", () => {
+      // the stack of a calldata copy from the top: memory offset, input offset, length
+      const structLogs = [
+        { op: "CALLDATACOPY", depth: 1, stack: [word("0x20"), word("0x44"), word("0x80")] },
+        { op: "CALL", depth: 1, stack: [word("0xa4"), word("0x0"), word("0x0"), word(TOKEN), word("0xffff")] },
+        { op: "CALLDATACOPY", depth: 2, stack: [word("0x40"), word("0x44"), word("0x80")] },
+        { op: "CALL", depth: 2, stack: [word("0x4"), word("0x0"), word("0x0"), word(DESK), word("0xffff")] },
+        // an empty `bytes` argument copies nothing
+        { op: "CALLDATACOPY", depth: 3, stack: [word("0x0"), word("0x4"), word("0x80")] },
+        { op: "STOP", depth: 3, stack: [] },
+        { op: "STOP", depth: 2, stack: [word("0x1")] },
+        { op: "STOP", depth: 1, stack: [word("0x1")] },
+      ];
+
+      const frame = structLogsToCallFrame(createRoot(), structLogs);
+
+      expect(frame.partialInput).to.equal(undefined);
+      expect(frame.calls?.[0].partialInput).to.equal(true);
+      expect(frame.calls?.[0].calls?.[0].partialInput).to.equal(undefined);
+    });
+
+    it("assigns the caller of the delegate calls to their nested calls", () => {
+      // the stack of a delegate call from the top: gas, address, input offset, input length
+      const structLogs = [
+        { op: "DELEGATECALL", depth: 1, stack: [word("0x0"), word("0x0"), word(IMPLEMENTATION), word("0xffff")] },
+        { op: "STATICCALL", depth: 2, stack: [word("0x0"), word("0x0"), word(TOKEN), word("0xffff")] },
+        { op: "REVERT", depth: 3, stack: [] },
+        { op: "STOP", depth: 2, stack: [word("0x0")] },
+        { op: "STOP", depth: 1, stack: [word("0x1")] },
+      ];
+
+      const frame = structLogsToCallFrame(createRoot(), structLogs);
+
+      expect(frame.calls?.[0]).to.include({ type: "DELEGATECALL", from: DESK, to: IMPLEMENTATION });
+      expect(frame.calls?.[0].calls?.[0]).to.include({
+        type: "STATICCALL",
+        from: DESK,
+        to: TOKEN,
+        error: "execution reverted",
+      });
+    });
+
+    it("takes the address of a created contract from the stack after its constructor", () => {
+      const structLogs = [
+        { op: "CREATE", depth: 1, stack: [word("0x0"), word("0x0"), word("0x0")] },
+        { op: "PUSH1", depth: 2, stack: [] },
+        { op: "RETURN", depth: 2, stack: [] },
+        { op: "SWAP1", depth: 1, stack: [word(CREATED)] },
+        { op: "CREATE2", depth: 1, stack: [word("0x0"), word("0x0"), word("0x0"), word("0x0")] },
+        { op: "SWAP1", depth: 1, stack: [word(TOKEN)] },
+      ];
+
+      const frame = structLogsToCallFrame(createRoot(), structLogs);
+
+      expect(frame.calls?.map(({ type, from, to, input }) => ({ type, from, to, input }))).to.deep.equal([
+        { type: "CREATE", from: DESK, to: CREATED, input: "0x" },
+        { type: "CREATE2", from: DESK, to: TOKEN, input: "0x" },
+      ]);
+    });
+  });
+});
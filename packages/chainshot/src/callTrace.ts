@@ -0,0 +1,162 @@
+import type { ScenarioProvider } from "./interception";
+
+/**
+ * A call frame in the format of the `callTracer` of `debug_traceTransaction`.
+ */
+export interface RawCallFrame {
+  type: string;
+  from: string;
+  to: string;
+  input: string;
+  error?: string;
+  calls?: RawCallFrame[];
+  partialInput?: boolean; // the input is restored from the trace without the memory, see `structLogsToCallFrame()`
+}
+
+interface StructLog {
+  op: string;
+  depth: number;
+  stack?: string[];
+}
+
+interface StructLogsTrace {
+  failed: boolean;
+  structLogs: StructLog[];
+}
+
+const CALL_OPCODES = ["CALL", "CALLCODE", "DELEGATECALL", "STATICCALL"];
+const CREATE_OPCODES = ["CREATE", "CREATE2"];
+
+function toHex(word: string): string {
+  return word.startsWith("0x") ? word.slice(2) : word;
+}
+
+function stackWordToAddress(word: string): string {
+  return "0x" + toHex(word).padStart(64, "0").slice(-40);
+}
+
+function stackWordToNumber(word: string): number {
+  return Number(BigInt("0x" + (toHex(word) || "0")));
+}
+
+function peekStack(structLog: StructLog, index: number): string {
+  const stack = structLog.stack ?? [];
+  return stack[stack.length - 1 - index] ?? "0";
+}
+
+// writes a word read by `CALLDATALOAD` into the input of the frame, the bytes beyond the input are dropped
+function writeInputWord(frame: RawCallFrame, offset: number, word: string) {
+  const input = toHex(frame.input);
+  if (offset * 2 >= input.length) {
+    return;
+  }
+  const wordHex = toHex(word).padStart(64, "0").slice(0, input.length - offset * 2);
+  frame.input = "0x" + input.slice(0, offset * 2) + wordHex + input.slice(offset * 2 + wordHex.length);
+}
+
+function structLogToCallFrame(structLog: StructLog): RawCallFrame {
+  if (CREATE_OPCODES.includes(structLog.op)) {
+    // the created address is known when the constructor returns, the creation code is not needed
+    return { type: structLog.op, from: "", to: "", input: "0x", calls: [] };
+  }
+  // CALL and CALLCODE have an additional `value` argument before the input location
+  const inputLengthIndex = structLog.op === "CALL" || structLog.op === "CALLCODE" ? 4 : 3;
+  return {
+    type: structLog.op,
+    from: "",
+    to: stackWordToAddress(peekStack(structLog, 1)),
+    // the memory is not traced, so the input is filled by the `CALLDATALOAD` reads of the called code
+    input: "0x" + "00".repeat(stackWordToNumber(peekStack(structLog, inputLengthIndex))),
+    calls: [],
+  };
+}
+
+// the code of a delegate call is executed in the context of its caller
+function assignCallers(frame: RawCallFrame) {
+  for (const call of frame.calls ?? []) {
+    call.from = frame.type === "DELEGATECALL" ? frame.from : frame.to;
+    assignCallers(call);
+  }
+}
+
+/**
+ * Restores the call tree from the opcode-level trace of the default tracer without the memory.
+ * Hardhat 2 supports only that tracer, so the `callTracer` output is reproduced from the call and create opcodes.
+ * The inputs of the internal calls are restored from the words read by `CALLDATALOAD`.
+ * The dynamic arguments copied to the memory by `CALLDATACOPY`, like `bytes`, cannot be restored,
+ * so the frames of such calls are marked with `partialInput`.
+ */
+export function structLogsToCallFrame(root: RawCallFrame, structLogs: StructLog[]): RawCallFrame {
+  const frames: RawCallFrame[] = [root];
+  let pendingFrame: RawCallFrame | undefined;
+  let pendingLoad: { frame: RawCallFrame; depth: number; offset: number } | undefined;
+
+  for (const structLog of structLogs) {
+    if (pendingFrame && structLog.depth === frames.length + 1) {
+      // the pending call has started executing code
+      frames.push(pendingFrame);
+    } else if (pendingFrame && CREATE_OPCODES.includes(pendingFrame.type)) {
+      // the creation code is empty, the address is already on the stack
+      pendingFrame.to = stackWordToAddress(peekStack(structLog, 0));
+    }
+    pendingFrame = undefined;
+    if (pendingLoad && structLog.depth === pendingLoad.depth && pendingLoad.frame !== root) {
+      writeInputWord(pendingLoad.frame, pendingLoad.offset, peekStack(structLog, 0));
+    }
+    pendingLoad = undefined;
+    while (frames.length > structLog.depth) {
+      const finishedFrame = frames.pop();
+      if (finishedFrame && CREATE_OPCODES.includes(finishedFrame.type) && frames.length === structLog.depth) {
+        // the address of the created contract, zero if the creation failed
+        finishedFrame.to = stackWordToAddress(peekStack(structLog, 0));
+      }
+    }
+    const currentFrame = frames[frames.length - 1];
+    if (structLog.op === "REVERT") {
+      currentFrame.error = "execution reverted";
+    }
+    if (structLog.op === "CALLDATALOAD") {
+      const offset = stackWordToNumber(peekStack(structLog, 0));
+      pendingLoad = { frame: currentFrame, depth: structLog.depth, offset };
+    }
+    // the stack of a calldata copy from the top: memory offset, input offset, length
+    if (structLog.op === "CALLDATACOPY" && currentFrame !== root && stackWordToNumber(peekStack(structLog, 2)) > 0) {
+      currentFrame.partialInput = true;
+    }
+    if (CALL_OPCODES.includes(structLog.op) || CREATE_OPCODES.includes(structLog.op)) {
+      pendingFrame = structLogToCallFrame(structLog);
+      currentFrame.calls?.push(pendingFrame);
+    }
+  }
+  assignCallers(root);
+  return root;
+}
+
+/**
+ * Returns the call tree of a transaction using the `callTracer` of `debug_traceTransaction`,
+ * falling back to the default tracer for networks without it, like Hardhat 2.
+ */
+export async function traceTransaction(provider: ScenarioProvider, txHash: string): Promise<RawCallFrame> {
+  try {
+    return await provider.send("debug_traceTransaction", [txHash, { tracer: "callTracer" }]) as RawCallFrame;
+  } catch {
+    const tx = await provider.getTransaction(txHash);
+    const trace = await provider.send(
+      "debug_traceTransaction",
+      [txHash, { disableStorage: true, disableMemory: true }],
+    ) as StructLogsTrace;
+    // a deployment is traced as a call to the created contract
+    const to = tx?.to ?? (await provider.getTransactionReceipt(txHash))?.contractAddress;
+    const root: RawCallFrame = {
+      type: tx?.to ? "CALL" : "CREATE",
+      from: tx?.from ?? "",
+      to: to ?? "",
+      input: tx?.data ?? "0x",
+      calls: [],
+    };
+    if (trace.failed) {
+      root.error = "execution reverted";
+    }
+    return structLogsToCallFrame(root, trace.structLogs);
+  }
+}
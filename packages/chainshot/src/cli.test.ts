@@ -0,0 +1,33 @@
+import fs from "node:fs";
+import path from "node:path";
+import { expect } from "chai";
+import { readStoredScenarios } from "./cli";
+import { renderScenariosTemplate } from "./scenarioLogs2Humans";
+
+const CONTRACTS_DIR = path.resolve(__dirname, "../../../contracts");
+const MARKDOWN_TEMPLATE = path.resolve(__dirname, "./templates/humanSnapshot.md.hbs");
+
+// test file -> its snapshot file, for the committed snapshots with the human reports
+function findCommittedSnapshots(): Record<string, string> {
+  const snapshots: Record<string, string> = {};
+  for (const entry of fs.readdirSync(CONTRACTS_DIR, { withFileTypes: true, recursive: true })) {
+    if (!entry.isFile() || !entry.name.endsWith(".snap") || entry.parentPath.includes("node_modules")) {
+      continue;
+    }
+    const testsDir = path.dirname(entry.parentPath);
+    snapshots[path.join(testsDir, path.basename(entry.name, ".snap"))] = path.join(entry.parentPath, entry.name);
+  }
+  return snapshots;
+}
+
+describe("chainshot regenerate", () => {
+  for (const [testFile, snapshotFile] of Object.entries(findCommittedSnapshots())) {
+    const reportFile = path.join(path.dirname(testFile), "__snapshots__humans__", path.parse(testFile).name + ".md");
+
+    it(`keeps the committed report of ${path.relative(CONTRACTS_DIR, testFile)}`, async () => {
+      const scenarios = readStoredScenarios(fs.readFileSync(snapshotFile, "utf8"));
+      const report = await renderScenariosTemplate(MARKDOWN_TEMPLATE, testFile, scenarios);
+      expect(report).to.equal(fs.readFileSync(reportFile, "utf8"));
+    });
+  }
+});
@@ -0,0 +1,181 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { execFile } from "node:child_process";
+import { parseArgs, promisify } from "node:util";
+import type { ScenarioLogs } from "./Scenario";
+import { StoredScenario } from "./StoredScenario";
+import { BuiltinReporterName, resolveReporter } from "./reporters";
+import { deserializeScenarioLogs, deserializeScenarioSnapshot, parseSnapshotFile } from "./snapshotFile";
+import { diffSnapshots, ScenarioDiff } from "./snapshotDiff";
+
+const execFileAsync = promisify(execFile);
+
+const USAGE = `Usage:
+  chainshot regenerate [dir] [--reporter markdown|html|json]...
+      Rewrites the human reports of all snapshot files in the directory (the current one by default).
+  chainshot diff <base> [head] [--path dir]
+      Compares the scenarios of two snapshot versions, each one is a git ref or a directory
+      (the current directory by default), limited to the given path inside them.
+      Exits with code 1 if they differ.`;
+
+// relative path of a snapshot file -> its content
+type SnapshotFiles = Record<string, string>;
+
+async function findSnapshotFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(entry => entry.isFile() && entry.name.endsWith(".snap"))
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .filter(file => !file.split(path.sep).includes("node_modules"))
+    .sort();
+}
+
+async function readDirectorySnapshots(dir: string): Promise<SnapshotFiles> {
+  const files: SnapshotFiles = {};
+  for (const file of await findSnapshotFiles(dir)) {
+    files[path.relative(dir, file)] = await fs.readFile(file, "utf8");
+  }
+  return files;
+}
+
+async function readGitSnapshots(ref: string, dir: string): Promise<SnapshotFiles> {
+  const git = (...args: string[]) => execFileAsync("git", args, { maxBuffer: 256 * 1024 * 1024 })
+    .then(({ stdout }) => stdout);
+  // the paths are relative to the current directory
+  const fileNames = (await git("ls-tree", "-r", "--name-only", ref, "--", dir))
+    .split("\n")
+    .filter(file => file.endsWith(".snap") && !file.split("/").includes("node_modules"));
+  const files: SnapshotFiles = {};
+  for (const file of fileNames) {
+    files[path.relative(dir, file)] = await git("show", `${ref}:./${file}`);
+  }
+  return files;
+}
+
+async function readSnapshots(source: string, dir: string): Promise<SnapshotFiles> {
+  const isDirectory = await fs.stat(source).then(stat => stat.isDirectory(), () => false);
+  return isDirectory ? readDirectorySnapshots(path.join(source, dir)) : readGitSnapshots(source, dir);
+}
+
+function readScenarioLogs(content: string): Record<string, ScenarioLogs> {
+  const scenarios: Record<string, ScenarioLogs> = {};
+  for (const [name, serialized] of Object.entries(parseSnapshotFile(content))) {
+    scenarios[name] = deserializeScenarioLogs(serialized);
+  }
+  return scenarios;
+}
+
+/**
+ * Returns the test file of a snapshot file, e.g. `test/Token.test.ts` for `test/__snapshots__/Token.test.ts.snap`.
+ */
+function getTestFile(snapshotFile: string): string {
+  return path.join(path.dirname(path.dirname(snapshotFile)), path.basename(snapshotFile, ".snap"));
+}
+
+function comparePositions(a: number[], b: number[]): number {
+  for (let index = 0; index < Math.min(a.length, b.length); ++index) {
+    if (a[index] !== b[index]) {
+      return a[index] - b[index];
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Restores the scenarios of a snapshot file in the order of the tests.
+ * The snapshots without the scenario info are named by the test titles and kept in the order of the file.
+ */
+export function readStoredScenarios(content: string): StoredScenario[] {
+  const scenarios = Object.entries(parseSnapshotFile(content)).map(([key, serialized]) => {
+    const { info, logs } = deserializeScenarioSnapshot(serialized);
+    // a single snapshot of a test gets the `1` suffix
+    return new StoredScenario(info?.name ?? key.replace(/ 1$/, ""), logs, info);
+  });
+  if (scenarios.every(scenario => scenario.info)) {
+    scenarios.sort((a, b) => comparePositions(a.info?.position ?? [], b.info?.position ?? []));
+  }
+  return scenarios;
+}
+
+async function regenerate(dir: string, reporterNames: BuiltinReporterName[]) {
+  const reporters = reporterNames.map(resolveReporter);
+  for (const snapshotFile of await findSnapshotFiles(dir)) {
+    const scenarios = readStoredScenarios(await fs.readFile(snapshotFile, "utf8"));
+    for (const reporter of reporters) {
+      await reporter.report(getTestFile(snapshotFile), scenarios, "hardhat");
+    }
+    console.log(`Regenerated reports of ${snapshotFile}`);
+  }
+}
+
+function printDiffs(file: string, diffs: ScenarioDiff[]) {
+  console.log(file);
+  for (const diff of diffs) {
+    const marker = { added: "+", removed: "-", changed: "~" }[diff.status];
+    console.log(`  ${marker} ${diff.name}${diff.status === "changed" ? "" : ` (${diff.status})`}`);
+    for (const line of diff.lines) {
+      console.log(`      ${line}`);
+    }
+  }
+  console.log();
+}
+
+async function diff(base: string, head: string, dir: string): Promise<boolean> {
+  const baseFiles = await readSnapshots(base, dir);
+  const headFiles = await readSnapshots(head, dir);
+  const counts = { added: 0, removed: 0, changed: 0 };
+  let changedFiles = 0;
+
+  const files = [...new Set([...Object.keys(baseFiles), ...Object.keys(headFiles)])].sort();
+  for (const file of files) {
+    const diffs = diffSnapshots(
+      file in baseFiles ? readScenarioLogs(baseFiles[file]) : {},
+      file in headFiles ? readScenarioLogs(headFiles[file]) : {},
+    );
+    if (diffs.length === 0) {
+      continue;
+    }
+    changedFiles++;
+    diffs.forEach(scenarioDiff => counts[scenarioDiff.status]++);
+    printDiffs(file, diffs);
+  }
+
+  if (changedFiles === 0) {
+    console.log(`No scenario differences between ${base} and ${head}`);
+    return false;
+  }
+  console.log(
+    `Summary: ${counts.changed} scenario(s) changed, ${counts.added} added, ${counts.removed} removed ` +
+    `in ${changedFiles} snapshot file(s) between ${base} and ${head}`,
+  );
+  return true;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      reporter: { type: "string", multiple: true },
+      path: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (command === "regenerate" && !values.help) {
+    const reporterNames = (values.reporter ?? ["markdown"]) as BuiltinReporterName[];
+    const unknownReporter = reporterNames.find(name => !["markdown", "json", "html"].includes(name));
+    if (unknownReporter) {
+      throw new Error(`Unknown reporter: ${unknownReporter}`);
+    }
+    await regenerate(args[0] ?? ".", reporterNames);
+    return 0;
+  }
+  if (command === "diff" && args.length > 0 && !values.help) {
+    const hasDifferences = await diff(args[0], args[1] ?? ".", values.path ?? ".");
+    return hasDifferences ? 1 : 0;
+  }
+  console.log(USAGE);
+  return values.help ? 0 : 2;
+}
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { BaseContract, FunctionFragment } from "ethers";
+import type { ScenarioErrorRecord, ScenarioLogRecord } from "./Scenario";
+import { StoredScenario } from "./StoredScenario";
+import { collectCoverage } from "./coverage";
+
+const ACCESS_CONTROL_ABI = [
+  "function grantRole(bytes32 role, address account)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+];
+
+const DESK = new BaseContract("0x00000000000000000000000000000000000000d1", [
+  ...ACCESS_CONTROL_ABI,
+  "function deposit(uint256 amount)",
+  "function deposit(uint256 amount, address to)",
+  "event Deposited(address account, uint256 amount)",
+  "error InsufficientBalance()",
+]);
+const VAULT = new BaseContract("0x00000000000000000000000000000000000000d2", ACCESS_CONTROL_ABI);
+const BRLC = new BaseContract("0x00000000000000000000000000000000000000a1", [
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+function call(contract: string, signature: string, error?: ScenarioErrorRecord): ScenarioLogRecord {
+  return {
+    type: error ? "revertedCall" : "methodCall",
+    methodFragment: FunctionFragment.from(`function ${signature}`),
+    caller: "alice",
+    contract,
+    args: [],
+    balances: {},
+    events: [],
+    error,
+  };
+}
+
+function createScenario(...logs: ScenarioLogRecord[]) {
+  return {
+    config: { contracts: { desk: DESK, vault: VAULT }, tokens: { BRLC } },
+    callLogs: new StoredScenario("Scenario", logs).callLogs,
+  };
+}
+
+describe("coverage", () => {
+  describe("collectCoverage()", () => {
+    it("lists the state-changing functions, the events and the errors of the scenario contracts", () => {
+      const coverage = collectCoverage([createScenario()]);
+
+      expect(coverage.desk).to.deep.equal({
+        functions: {
+          "grantRole(bytes32,address)": false,
+          "deposit(uint256)": false,
+          "deposit(uint256,address)": false,
+        },
+        events: { "RoleGranted(bytes32,address,address)": false, "Deposited(address,uint256)": false },
+        errors: { "AccessControlUnauthorizedAccount(address,bytes32)": false, "InsufficientBalance()": false },
+      });
+      expect(Object.keys(coverage)).to.deep.equal(["desk", "vault", "BRLC"]);
+    });
+
+    it("marks the called functions, the internal calls and the events by name", () => {
+      const deposit = call("desk", "deposit(uint256 amount)");
+      deposit.events = [
+        { contract: "BRLC", name: "Transfer", args: [] },
+        { contract: "desk", name: "Deposited", args: [] },
+      ];
+      deposit.calls = [{
+        type: "CALL",
+        caller: "desk",
+        contract: "BRLC",
+        method: "transfer",
+        args: [],
+        calls: [{ type: "CALL", caller: "BRLC", contract: "vault", method: "grantRole", args: [], calls: [] }],
+      }];
+
+      const coverage = collectCoverage([createScenario(deposit)]);
+
+      // the steps are matched by their signatures
+      expect(coverage.desk.functions).to.deep.equal({
+        "grantRole(bytes32,address)": false,
+        "deposit(uint256)": true,
+        "deposit(uint256,address)": false,
+      });
+      expect(coverage.desk.events["Deposited(address,uint256)"]).to.equal(true);
+      expect(coverage.BRLC.functions["transfer(address,uint256)"]).to.equal(true);
+      expect(coverage.BRLC.events["Transfer(address,address,uint256)"]).to.equal(true);
+      expect(coverage.vault.functions["grantRole(bytes32,address)"]).to.equal(true);
+    });
+
+    it("marks a custom error in every scenario contract that declares it", () => {
+      // the error is decoded with the first contract declaring it, even if another one reverted
+      const error = { contract: "desk", name: "AccessControlUnauthorizedAccount", args: [] };
+
+      const coverage = collectCoverage([
+        createScenario(call("vault", "grantRole(bytes32 role, address account)", error)),
+      ]);
+
+      expect(coverage.desk.errors["AccessControlUnauthorizedAccount(address,bytes32)"]).to.equal(true);
+      expect(coverage.vault.errors["AccessControlUnauthorizedAccount(address,bytes32)"]).to.equal(true);
+      expect(coverage.desk.errors["InsufficientBalance()"]).to.equal(false);
+      // the reverted call is seen as well
+      expect(coverage.vault.functions["grantRole(bytes32,address)"]).to.equal(true);
+    });
+
+    it("does not mark the built-in errors", () => {
+      const coverage = collectCoverage([createScenario(call("desk", "deposit(uint256)", { name: "Panic", args: [] }))]);
+
+      expect(Object.values(coverage.desk.errors)).to.deep.equal([false, false]);
+    });
+  });
+});
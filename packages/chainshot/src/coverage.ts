@@ -0,0 +1,113 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import Handlebars from "handlebars";
+import type { BaseContract } from "ethers";
+import type { Scenario, ScenarioCallTraceRecord, ScenarioConfig } from "./Scenario";
+import { getReportFileName } from "./scenarioLogs2Humans";
+
+// signature -> whether it appeared in at least one scenario
+type CoverageItems = Record<string, boolean>;
+
+export interface ContractCoverage {
+  functions: CoverageItems; // state-changing functions, views are not called by transactions
+  events: CoverageItems;
+  errors: CoverageItems;
+}
+
+// contract label -> coverage
+export type ScenarioCoverage = Record<string, ContractCoverage>;
+
+// the parts of a scenario the coverage is collected from
+type CoveredScenario = Pick<Scenario, "callLogs"> & { config: Pick<ScenarioConfig, "contracts" | "tokens"> };
+
+const COVERAGE_REPORT_NAME = "scenarioCoverage";
+
+function getContractCoverage(contract: BaseContract): ContractCoverage {
+  const coverage: ContractCoverage = { functions: {}, events: {}, errors: {} };
+  contract.interface.forEachFunction((fragment) => {
+    if (!fragment.constant) {
+      coverage.functions[fragment.format("sighash")] = false;
+    }
+  });
+  contract.interface.forEachEvent((fragment) => {
+    coverage.events[fragment.format("sighash")] = false;
+  });
+  contract.interface.forEachError((fragment) => {
+    coverage.errors[fragment.format("sighash")] = false;
+  });
+  return coverage;
+}
+
+// events, errors and internal calls are recorded by name, so all overloads are marked
+function markByName(items: CoverageItems | undefined, name: string) {
+  if (!items) {
+    return;
+  }
+  for (const signature of Object.keys(items)) {
+    if (signature.startsWith(name + "(")) {
+      items[signature] = true;
+    }
+  }
+}
+
+function markCalls(coverage: ScenarioCoverage, calls: ScenarioCallTraceRecord[]) {
+  for (const call of calls) {
+    markByName(coverage[call.contract]?.functions, call.method);
+    markCalls(coverage, call.calls);
+  }
+}
+
+/**
+ * Collects which functions, events and custom errors of the scenario contracts appeared in the scenarios.
+ * Contracts are identified by their labels in the scenario configs.
+ * A custom error is marked in every contract of its scenario that declares it,
+ * because the same error, e.g. an OpenZeppelin one, can be declared by several contracts.
+ */
+export function collectCoverage(scenarios: CoveredScenario[]): ScenarioCoverage {
+  const coverage: ScenarioCoverage = {};
+  for (const scenario of scenarios) {
+    for (const [name, contract] of Object.entries({ ...scenario.config.contracts, ...scenario.config.tokens })) {
+      coverage[name] ??= getContractCoverage(contract);
+    }
+  }
+  for (const scenario of scenarios) {
+    const contractNames = Object.keys({ ...scenario.config.contracts, ...scenario.config.tokens });
+    for (const log of scenario.callLogs) {
+      const functions = coverage[log.contract]?.functions;
+      const signature = log.methodFragment.format("sighash");
+      if (functions && signature in functions) {
+        functions[signature] = true;
+      }
+      markCalls(coverage, log.calls ?? []);
+      for (const event of log.events) {
+        markByName(coverage[event.contract]?.events, event.name);
+      }
+      const error = log.error;
+      if (error?.contract) {
+        contractNames.forEach(name => markByName(coverage[name]?.errors, error.name));
+      }
+    }
+  }
+  return coverage;
+}
+
+function countSeen(items: CoverageItems): string {
+  const values = Object.values(items);
+  return `${values.filter(seen => seen).length}/${values.length}`;
+}
+
+Handlebars.registerHelper("coverage-count", countSeen);
+
+/**
+ * Writes the coverage as `__snapshots__humans__/scenarioCoverage.md` and `.json` in the tests directory.
+ */
+export async function writeCoverage(testsDir: string, coverage: ScenarioCoverage, networkName: string) {
+  const reportFile = path.join(testsDir, COVERAGE_REPORT_NAME);
+  const template = await fs.readFile(path.resolve(__dirname, "./templates/coverage.md.hbs"), "utf8")
+    .then(t => Handlebars.compile(t));
+  await fs.writeFile(await getReportFileName(reportFile, networkName, "md"), template({ coverage }));
+  await fs.writeFile(
+    await getReportFileName(reportFile, networkName, "json"),
+    JSON.stringify(coverage, null, 2) + "\n",
+  );
+}
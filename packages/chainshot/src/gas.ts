@@ -0,0 +1,94 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import type { RenderableScenario, Scenario } from "./Scenario";
+
+// scenario name -> gas used by every step of the scenario
+export type GasSnapshot = Record<string, string[]>;
+
+/**
+ * Returns the same mode as for the `.snap` files: "none" in CI, "all" with `UPDATE_SNAPSHOT=1` or `--update`,
+ * "new" otherwise. The helper parses the process arguments when loaded, so it is not loaded by the CLI.
+ */
+function getUpdateSnapshotMode(): string {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { snapshotOptions } = require("mocha-chai-jest-snapshot/dist/helper");
+  return snapshotOptions.updateSnapshot;
+}
+
+function getGasSnapshotFileName(testFile: string) {
+  const parsed = path.parse(testFile);
+  return path.join(parsed.dir, "__snapshots__", parsed.base + ".gas.json");
+}
+
+export async function readGasSnapshot(testFile: string): Promise<GasSnapshot> {
+  try {
+    return JSON.parse(await fs.readFile(getGasSnapshotFileName(testFile), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Writes the gas snapshot if it differs from the stored one.
+ */
+export async function writeGasSnapshot(testFile: string, snapshot: GasSnapshot) {
+  const fileName = getGasSnapshotFileName(testFile);
+  const content = JSON.stringify(snapshot, null, 2) + "\n";
+  const storedContent = await fs.readFile(fileName, "utf8").catch(() => undefined);
+  if (content === storedContent) {
+    return;
+  }
+  await fs.mkdir(path.dirname(fileName), { recursive: true });
+  await fs.writeFile(fileName, content);
+}
+
+export function getTotalGasUsed(scenario: RenderableScenario): bigint {
+  return scenario.callLogs.reduce((total, log) => total + (log.gas?.used ?? 0n), 0n);
+}
+
+/**
+ * Compares the gas used by the scenario steps with the stored gas snapshot.
+ * Fills the `delta` of every step and updates the snapshot when it is allowed like for the `.snap` files:
+ * a missing scenario is added outside of CI, all scenarios are updated in the update mode.
+ *
+ * @returns the list of violated gas expectations, empty if everything is fine
+ */
+export function checkScenarioGas(scenario: Scenario, snapshot: GasSnapshot): string[] {
+  const gasConfig = scenario.gasConfig;
+  if (!gasConfig) {
+    return [];
+  }
+  const violations: string[] = [];
+  const stored = snapshot[scenario.name];
+
+  scenario.callLogs.forEach((log, index) => {
+    if (!log.gas || stored?.[index] === undefined) {
+      return;
+    }
+    const storedGasUsed = BigInt(stored[index]);
+    log.gas.delta = log.gas.used - storedGasUsed;
+    if (gasConfig.regressionThreshold === undefined || log.gas.delta <= 0n) {
+      return;
+    }
+    const thresholdBasisPoints = BigInt(Math.round(gasConfig.regressionThreshold * 100));
+    if (log.gas.delta * 10000n > storedGasUsed * thresholdBasisPoints) {
+      violations.push(
+        `Step ${index} (${log.contract}.${log.methodFragment.name}) used ${log.gas.used} gas, ` +
+        `stored: ${storedGasUsed}, threshold: ${gasConfig.regressionThreshold}%`,
+      );
+    }
+  });
+
+  const totalGasUsed = getTotalGasUsed(scenario);
+  if (gasConfig.budget !== undefined && totalGasUsed > gasConfig.budget) {
+    violations.push(`Scenario used ${totalGasUsed} gas, budget: ${gasConfig.budget}`);
+  }
+
+  const updateSnapshot = getUpdateSnapshotMode();
+  if (!stored && updateSnapshot === "none") {
+    violations.push("The scenario is missing in the gas snapshot, it is not written in CI, run with UPDATE_SNAPSHOT=1");
+  } else if (!stored || updateSnapshot === "all") {
+    snapshot[scenario.name] = scenario.callLogs.map(log => (log.gas?.used ?? 0n).toString());
+  }
+  return violations;
+}
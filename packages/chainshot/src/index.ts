@@ -5,14 +5,51 @@ import type { RootHookObject } from "mocha";
 
 import { Scenario, ScenarioConfig } from "./Scenario";
 import { jestSnapshotPlugin } from "mocha-chai-jest-snapshot";
-import { dumpScenariosToHumans } from "./scenarioLogs2Humans";
+import { BuiltinReporterName, resolveReporter, ScenarioReporter } from "./reporters";
+export { bytes32String, sequentialAliases, type ScenarioValueFormatter } from "./normalization";
+export { registerEventFormatter, registerKnownConstants, type ScenarioEventFormatter } from "./utils";
+import { checkScenarioGas, GasSnapshot, readGasSnapshot, writeGasSnapshot } from "./gas";
+import { collectCoverage, writeCoverage } from "./coverage";
+import { hardhat2Adapter, ProviderAdapter } from "./interception";
+import { checkTokenConservation, TokenConservation } from "./moneyFlow";
+import { readRecordings, replayTransactions, writeRecording } from "./replay";
+import { deserializeScenarioLogs, serializeScenarioLogs } from "./snapshotFile";
+import { diffScenarioLogs } from "./snapshotDiff";
+export { type ContractCoverage, type ScenarioCoverage } from "./coverage";
+
+export {
+  htmlReporter,
+  jsonReporter,
+  markdownReporter,
+  templateReporter,
+  type BuiltinReporterName,
+  type ScenarioReporter,
+} from "./reporters";
+export {
+  hardhat2Adapter,
+  hardhat3Adapter,
+  interceptRequests,
+  type Eip1193Provider,
+  type Hardhat3NetworkConnection,
+  type ProviderAdapter,
+} from "./interception";
+export type { ScenarioContractFactory } from "./Scenario";
+export type { RecordedTransaction, ScenarioRecording } from "./replay";
+export { BURN_ACCOUNT, getMoneyFlows, MINT_ACCOUNT, type MoneyFlow, type TokenConservation } from "./moneyFlow";
+
+// networks where the transactions are captured, the helpers are no-ops on the others
+const SUPPORTED_NETWORKS = ["hardhat", "stratus"];
 
 type FirstFunctionArgument<T> = T extends (arg: infer A) => unknown ? A : never;
 
 export function mochaHooks(options: {
   chai?: typeof import("chai");
   hre?: HardhatRuntimeEnvironment;
+  // the network to capture, the Hardhat 2 network of `hre` by default
+  adapter?: ProviderAdapter | (() => ProviderAdapter | Promise<ProviderAdapter>);
   jestSnapshotPluginConfig?: FirstFunctionArgument<typeof jestSnapshotPlugin>;
+  reporters?: (ScenarioReporter | BuiltinReporterName)[]; // the Markdown report by default
+  coverage?: boolean; // write the functions, events and errors that appeared in the scenarios of the run
 } = {},
 ): RootHookObject {
   let currentTest: Mocha.Test | undefined;
@@ -20,8 +57,12 @@ export function mochaHooks(options: {
   const chai = options.chai || require("chai");
   const scenariosCache = new Map<string, Scenario>();
   const scenariosToHumanSnapshots: Record<string, Scenario[]> = {};
+  const gasSnapshots: Record<string, GasSnapshot> = {};
+  const reporters = (options.reporters ?? ["markdown"]).map(resolveReporter);
+  let networkName = "hardhat";
+  let testsDir = "test";
 
-  function initPlugin(hre: HardhatRuntimeEnvironment) {
+  function initPlugin(adapter: ProviderAdapter) {
     chai.use(jestSnapshotPlugin(options.jestSnapshotPluginConfig));
 
     chai.expect.startChainshot = async function startChainshot(config: ScenarioConfig): Promise<void> {
@@ -32,14 +73,14 @@ export function mochaHooks(options: {
         return; // scenariosCache.get(runnable.id) as Scenario;
       }
       const scenario: Scenario = new Scenario(
-        hre,
+        adapter.provider,
         {
           test: currentTest,
           config,
           name: config.name,
         });
       await scenario.waitForInitialization();
-      scenario.injectIntoProvider(hre.ethers.provider);
+      scenario.injectIntoProvider(adapter);
       scenariosCache.set(currentTest.id, scenario);
       // return scenario;
     };
@@ -51,10 +92,14 @@ export function mochaHooks(options: {
       if (scenario === undefined) {
         throw new Error("Scenario have to be started in a test");
       }
-      scenario.restoreProvider(hre.ethers.provider);
+      scenario.restoreProvider();
 
       // scenario.printLogs();
-      chai.expect(scenario.logs).toMatchSnapshot();
+      // Stratus keeps the state between tests, so only the human reports are written for it
+      const isHardhat = networkName === "hardhat";
+      if (isHardhat) {
+        chai.expect(scenario.getSnapshot()).toMatchSnapshot();
+      }
       if (currentTest.file) {
         if (!scenariosToHumanSnapshots[currentTest.file]) {
           scenariosToHumanSnapshots[currentTest.file] = [];
@@ -62,21 +107,95 @@ export function mochaHooks(options: {
         scenariosToHumanSnapshots[currentTest.file].push(scenario);
       }
       scenariosCache.delete(currentTest.id);
+
+      if (isHardhat && scenario.config.record && currentTest.file) {
+        await writeRecording(currentTest.file, scenario.name, {
+          transactions: scenario.recordedTransactions,
+          logs: serializeScenarioLogs(scenario.getSnapshotLogs()),
+        });
+      }
+
+      if (isHardhat && scenario.gasConfig && currentTest.file) {
+        if (!gasSnapshots[currentTest.file]) {
+          gasSnapshots[currentTest.file] = await readGasSnapshot(currentTest.file);
+        }
+        const violations = checkScenarioGas(scenario, gasSnapshots[currentTest.file]);
+        chai.assert(violations.length === 0, `Gas expectations are violated:\n${violations.join("\n")}`);
+      }
+    };
+    chai.expect.replayChainshot = async function replayChainshot(
+      name: string,
+      config: ScenarioConfig,
+      replayOptions: { testFile?: string } = {},
+    ): Promise<void> {
+      if (currentTest === undefined) {
+        throw new Error("Scenario have to be replayed in a test");
+      }
+      if (networkName !== "hardhat") {
+        throw new Error("Scenarios can be replayed on the hardhat network only");
+      }
+      const testFile = replayOptions.testFile ?? currentTest.file;
+      const recording = testFile ? (await readRecordings(testFile))[name] : undefined;
+      if (recording === undefined) {
+        throw new Error(`Recording of the "${name}" scenario is not found, start it with the "record" option`);
+      }
+      const scenario = new Scenario(adapter.provider, {
+        test: currentTest,
+        config,
+        name: `${name} (replay)`,
+      });
+      await scenario.waitForInitialization();
+      scenario.injectIntoProvider(adapter);
+      try {
+        await replayTransactions(adapter.provider, scenario, recording.transactions);
+      } finally {
+        scenario.restoreProvider();
+      }
+      if (currentTest.file) {
+        (scenariosToHumanSnapshots[currentTest.file] ??= []).push(scenario);
+      }
+      const divergences = diffScenarioLogs(deserializeScenarioLogs(recording.logs), scenario.getSnapshotLogs());
+      chai.assert(
+        divergences.length === 0,
+        `Replay of the "${name}" scenario diverges from the recording:\n${divergences.join("\n")}`,
+      );
+    };
+    chai.expect.chainshotConserves = async function chainshotConserves(conservation: TokenConservation) {
+      if (currentTest === undefined) {
+        throw new Error("Token conservation have to be checked in a test");
+      }
+      const scenario = scenariosCache.get(currentTest.id);
+      if (scenario === undefined) {
+        throw new Error("Scenario have to be started in a test");
+      }
+      const violations = await checkTokenConservation(scenario, conservation);
+      chai.assert(violations.length === 0, `Token conservation is violated:\n${violations.join("\n")}`);
     };
   }
   function initDummyPlugin() {
     async function dummy() {
-      console.log("Current network is not hardhat, skipping scenario plugin");
+      console.log(`Current network ${networkName} is not supported, skipping scenario plugin`);
     };
     chai.expect.startChainshot = dummy;
     chai.expect.stopChainshot = dummy;
+    chai.expect.replayChainshot = dummy;
+    chai.expect.chainshotConserves = dummy;
   }
   return {
-    beforeAll(this: Mocha.Context) {
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const hre: HardhatRuntimeEnvironment = options.hre || require("hardhat");
-      if (hre.network.name === "hardhat") {
-        initPlugin(hre);
+    async beforeAll(this: Mocha.Context) {
+      let adapter: ProviderAdapter;
+      if (options.adapter) {
+        adapter = typeof options.adapter === "function" ? await options.adapter() : options.adapter;
+        testsDir = options.hre?.config.paths.tests ?? testsDir;
+      } else {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const hre: HardhatRuntimeEnvironment = options.hre || require("hardhat");
+        adapter = hardhat2Adapter(hre);
+        testsDir = hre.config.paths.tests;
+      }
+      networkName = adapter.networkName;
+      if (SUPPORTED_NETWORKS.includes(networkName)) {
+        initPlugin(adapter);
       } else {
         console.log("initDummyPlugin");
         initDummyPlugin();
@@ -92,7 +211,16 @@ export function mochaHooks(options: {
       chai.assert(scenariosCache.size === 0, "There are still running snapshot scenarios");
 
       for (const [testFile, scenarios] of Object.entries(scenariosToHumanSnapshots)) {
-        await dumpScenariosToHumans(testFile, scenarios);
+        for (const reporter of reporters) {
+          await reporter.report(testFile, scenarios, networkName);
+        }
+      }
+      for (const [testFile, gasSnapshot] of Object.entries(gasSnapshots)) {
+        await writeGasSnapshot(testFile, gasSnapshot);
+      }
+      const scenarios = Object.values(scenariosToHumanSnapshots).flat();
+      if (options.coverage && scenarios.length > 0) {
+        await writeCoverage(testsDir, collectCoverage(scenarios), networkName);
       }
     },
   };
@@ -106,6 +234,8 @@ declare global {
         config: ScenarioConfig,
       ): Promise<void>;
       stopChainshot(): Promise<void>;
+      replayChainshot(name: string, config: ScenarioConfig, options?: { testFile?: string }): Promise<void>;
+      chainshotConserves(conservation: TokenConservation): Promise<void>;
     }
   }
 }
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { getAddress, Wallet } from "ethers";
+import {
+  Eip1193RequestArguments,
+  InterceptedTransaction,
+  interceptRequests,
+  TransactionRecorder,
+} from "./interception";
+
+const ALICE = "0x00000000000000000000000000000000000000e1";
+const DESK = "0x00000000000000000000000000000000000000d1";
+const TX_HASH = "0x" + "ab".repeat(32);
+const REVERT_DATA = "0x08c379a0";
+
+type RecordedCall = ["processTx", InterceptedTransaction, string] |
+  ["processRevertedTx", InterceptedTransaction, string | undefined, string | undefined];
+
+function createRecorder() {
+  const calls: RecordedCall[] = [];
+  const recorder: TransactionRecorder = {
+    async processTx(transaction, txHash) {
+      calls.push(["processTx", transaction, txHash]);
+    },
+    async processRevertedTx(transaction, txHash, revertData) {
+      calls.push(["processRevertedTx", transaction, txHash, revertData]);
+    },
+  };
+  return { calls, recorder };
+}
+
+// a node returning the hash of the sent transactions and failing the requests with the given error
+function createRequest(error?: unknown) {
+  const requests: Eip1193RequestArguments[] = [];
+  const request = async (args: Eip1193RequestArguments) => {
+    requests.push(args);
+    if (error) {
+      throw error;
+    }
+    return args.method === "eth_estimateGas" ? "0x5208" : TX_HASH;
+  };
+  return { requests, request };
+}
+
+async function getError(promise: Promise<unknown>): Promise<unknown> {
+  return promise.then(() => undefined, (error: unknown) => error);
+}
+
+describe("interception", () => {
+  describe("interceptRequests()", () => {
+    it("records the sent transactions and the deployments with their hashes", async () => {
+      const { calls, recorder } = createRecorder();
+      const { requests, request } = createRequest();
+      const intercepted = interceptRequests(request, recorder, "hardhat");
+
+      const call = { from: ALICE, to: DESK, data: "0x12345678", value: "0x64" };
+      expect(await intercepted({ method: "eth_sendTransaction", params: [call] })).to.equal(TX_HASH);
+      await intercepted({ method: "eth_sendTransaction", params: [{ from: ALICE, input: "0x6080" }] });
+
+      expect(requests).to.have.lengthOf(2);
+      expect(calls).to.deep.equal([
+        ["processTx", { from: ALICE, to: DESK, data: "0x12345678", value: 100n }, TX_HASH],
+        ["processTx", { from: ALICE, to: undefined, data: "0x6080", value: undefined }, TX_HASH],
+      ]);
+    });
+
+    it("decodes the raw transactions", async () => {
+      const { calls, recorder } = createRecorder();
+      const wallet = new Wallet("0x" + "01".repeat(32));
+      const rawTransaction = await wallet.signTransaction({
+        to: DESK,
+        data: "0x12345678",
+        value: 5n,
+        gasLimit: 100_000n,
+        gasPrice: 1n,
+        chainId: 31337n,
+      });
+      const intercepted = interceptRequests(createRequest().request, recorder, "hardhat");
+
+      await intercepted({ method: "eth_sendRawTransaction", params: [rawTransaction] });
+
+      expect(calls).to.deep.equal([
+        ["processTx", { from: wallet.address, to: getAddress(DESK), data: "0x12345678", value: 5n }, TX_HASH],
+      ]);
+    });
+
+    it("passes the other requests through", async () => {
+      const { calls, recorder } = createRecorder();
+      const { requests, request } = createRequest();
+      const intercepted = interceptRequests(request, recorder, "hardhat");
+
+      await intercepted({ method: "eth_call", params: [{ from: ALICE, to: DESK, data: "0x12345678" }] });
+      // a transaction without a sender is not recorded
+      await intercepted({ method: "eth_sendTransaction", params: [{ to: DESK, data: "0x12345678" }] });
+
+      expect(requests).to.have.lengthOf(2);
+      expect(calls).to.deep.equal([]);
+    });
+
+    it("records the failed transaction and rethrows its error", async () => {
+      const error = Object.assign(new Error("reverted"), { data: REVERT_DATA, transactionHash: TX_HASH });
+      const { calls, recorder } = createRecorder();
+      const intercepted = interceptRequests(createRequest(error).request, recorder, "hardhat");
+
+      const call = { from: ALICE, to: DESK, data: "0x12345678" };
+      expect(await getError(intercepted({ method: "eth_sendTransaction", params: [call] }))).to.equal(error);
+
+      expect(calls).to.deep.equal([
+        ["processRevertedTx", { from: ALICE, to: DESK, data: "0x12345678", value: undefined }, TX_HASH, REVERT_DATA],
+      ]);
+    });
+
+    it("does not record the failures without the revert data and the transaction hash", async () => {
+      const error = new Error("nonce too low");
+      const { calls, recorder } = createRecorder();
+      const intercepted = interceptRequests(createRequest(error).request, recorder, "hardhat");
+
+      const call = { from: ALICE, to: DESK, data: "0x12345678" };
+      expect(await getError(intercepted({ method: "eth_sendTransaction", params: [call] }))).to.equal(error);
+
+      expect(calls).to.deep.equal([]);
+    });
+
+    it("records only the failed gas estimations on Stratus", async () => {
+      const error = Object.assign(new Error("reverted"), { data: { data: REVERT_DATA } });
+      const call = { from: ALICE, to: DESK, data: "0x12345678" };
+      const { calls, recorder } = createRecorder();
+
+      const stratusEstimation = interceptRequests(createRequest().request, recorder, "stratus");
+      expect(await stratusEstimation({ method: "eth_estimateGas", params: [call] })).to.equal("0x5208");
+      const failedStratusEstimation = interceptRequests(createRequest(error).request, recorder, "stratus");
+      expect(await getError(failedStratusEstimation({ method: "eth_estimateGas", params: [call] }))).to.equal(error);
+      const failedHardhatEstimation = interceptRequests(createRequest(error).request, recorder, "hardhat");
+      expect(await getError(failedHardhatEstimation({ method: "eth_estimateGas", params: [call] }))).to.equal(error);
+
+      expect(calls).to.deep.equal([
+        ["processRevertedTx", { from: ALICE, to: DESK, data: "0x12345678", value: undefined }, undefined, REVERT_DATA],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BrowserProvider, Provider, Transaction } from "ethers";
+import { extractRevertInfo } from "./utils";
+
+export interface Eip1193RequestArguments {
+  readonly method: string;
+  readonly params?: readonly unknown[] | object;
+}
+
+/**
+ * A provider of the EIP-1193 standard, like the network provider of Hardhat or the transport of a viem client.
+ */
+export interface Eip1193Provider {
+  request(args: Eip1193RequestArguments): Promise<unknown>;
+}
+
+type RequestFunction = Eip1193Provider["request"];
+
+/**
+ * The ethers provider used by a scenario to read the chain state, receipts and traces.
+ */
+export type ScenarioProvider = Pick<Provider, "call" | "getBlock" | "getTransaction" | "getTransactionReceipt"> & {
+  send(method: string, params: unknown[]): Promise<unknown>;
+};
+
+/**
+ * A transaction sent through the provider, decoded from the request params or from a raw signed transaction.
+ */
+export interface InterceptedTransaction {
+  from: string;
+  to?: string; // undefined for deployments
+  data: string;
+  value?: bigint;
+}
+
+/**
+ * Receives the intercepted transactions, like a scenario.
+ */
+export interface TransactionRecorder {
+  processTx(transaction: InterceptedTransaction, txHash: string): Promise<void>;
+  processRevertedTx(
+    transaction: InterceptedTransaction,
+    txHash: string | undefined,
+    revertData: string | undefined,
+  ): Promise<void>;
+}
+
+/**
+ * Connects scenarios to a network: provides the provider to read the state
+ * and intercepts the transactions sent by the tests.
+ */
+export interface ProviderAdapter {
+  networkName: string;
+  provider: ScenarioProvider;
+  // returns the function restoring the original provider
+  intercept(recorder: TransactionRecorder): () => void;
+}
+
+interface RpcTransaction {
+  from?: string;
+  to?: string | null;
+  data?: string;
+  input?: string;
+  value?: string;
+}
+
+function decodeTransaction({ method, params }: Eip1193RequestArguments): InterceptedTransaction | undefined {
+  const [param] = Array.isArray(params) ? params : [];
+  if (method === "eth_sendTransaction" || method === "eth_estimateGas") {
+    const transaction = param as RpcTransaction | undefined;
+    if (!transaction?.from) {
+      return;
+    }
+    return {
+      from: transaction.from,
+      to: transaction.to ?? undefined,
+      data: transaction.data ?? transaction.input ?? "0x",
+      value: transaction.value !== undefined ? BigInt(transaction.value) : undefined,
+    };
+  }
+  if (method === "eth_sendRawTransaction" && typeof param === "string") {
+    const transaction = Transaction.from(param);
+    if (!transaction.from) {
+      return;
+    }
+    const { from, to, data, value } = transaction;
+    return { from, to: to ?? undefined, data, value };
+  }
+}
+
+// networks rejecting a failing transaction only by `eth_estimateGas`, before it is sent
+const NETWORKS_WITHOUT_FAILED_SENDS = ["stratus"];
+
+/**
+ * Wraps the `request` function of an EIP-1193 provider to pass the sent transactions to the recorder:
+ * `eth_sendTransaction` and `eth_sendRawTransaction` requests, including deployments, after they are sent,
+ * and the failed ones before their errors are rethrown.
+ * On Stratus a failing transaction is rejected by `eth_estimateGas` before it is sent,
+ * so there failed gas estimations are recorded as reverted transactions too. On other networks they are ignored,
+ * because the failing transactions are still sent, and the estimations of the tests must not become steps.
+ */
+export function interceptRequests(
+  request: RequestFunction,
+  recorder: TransactionRecorder,
+  networkName: string,
+): RequestFunction {
+  const recordFailedEstimations = NETWORKS_WITHOUT_FAILED_SENDS.includes(networkName);
+  return async (args) => {
+    const transaction = args.method !== "eth_estimateGas" || recordFailedEstimations
+      ? decodeTransaction(args)
+      : undefined;
+    if (!transaction) {
+      return request(args);
+    }
+    let result: unknown;
+    try {
+      result = await request(args);
+    } catch (error) {
+      const { data, txHash } = extractRevertInfo(error);
+      if (data !== undefined || txHash !== undefined) {
+        await recorder.processRevertedTx(transaction, txHash, data);
+      }
+      throw error;
+    }
+    if (args.method !== "eth_estimateGas") {
+      await recorder.processTx(transaction, String(result));
+    }
+    return result;
+  };
+}
+
+/**
+ * The adapter for Hardhat 2 with `@nomicfoundation/hardhat-ethers`, like in `@cloudwalk/hardhat2-config`.
+ * Transactions of the ethers signers and of other clients of `hre.network.provider`, like viem, are intercepted.
+ */
+export function hardhat2Adapter(hre: HardhatRuntimeEnvironment): ProviderAdapter {
+  const networkProvider = hre.network.provider;
+  const networkName = hre.network.name;
+  return {
+    networkName,
+    provider: hre.ethers.provider,
+    intercept(recorder) {
+      const { request, send } = networkProvider;
+      const interceptedRequest = interceptRequests(request.bind(networkProvider), recorder, networkName);
+      networkProvider.request = interceptedRequest;
+      // the legacy `send` used by the ethers provider of Hardhat 2 does not go through `request`
+      networkProvider.send = (method, params) => interceptedRequest({ method, params });
+      return () => {
+        networkProvider.request = request;
+        networkProvider.send = send;
+      };
+    },
+  };
+}
+
+/**
+ * A network connection of Hardhat 3, returned by `network.connect()`.
+ */
+export interface Hardhat3NetworkConnection {
+  networkName: string;
+  networkConfig: { type: string };
+  provider: Eip1193Provider;
+}
+
+/**
+ * The adapter for a Hardhat 3 network connection. It must be the connection used by the tests,
+ * because every connection to a simulated network has its own chain.
+ * Transactions of all clients of the connection provider, like the ethers signers and viem, are intercepted.
+ */
+export function hardhat3Adapter(connection: Hardhat3NetworkConnection): ProviderAdapter {
+  const networkProvider = connection.provider;
+  // the simulated networks of Hardhat 3 behave like the `hardhat` network of Hardhat 2
+  const networkName = connection.networkConfig.type === "edr-simulated" ? "hardhat" : connection.networkName;
+  return {
+    networkName,
+    provider: new BrowserProvider(networkProvider),
+    intercept(recorder) {
+      const { request } = networkProvider;
+      // the legacy `send` of Hardhat 3 providers goes through `request`
+      networkProvider.request = interceptRequests(request.bind(networkProvider), recorder, networkName);
+      return () => {
+        networkProvider.request = request;
+      };
+    },
+  };
+}
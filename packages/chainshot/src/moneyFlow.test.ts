@@ -0,0 +1,75 @@
+import { expect } from "chai";
+import { FunctionFragment, ZeroAddress } from "ethers";
+import type { ScenarioEventRecord, ScenarioLogRecord } from "./Scenario";
+import { StoredScenario } from "./StoredScenario";
+import { BURN_ACCOUNT, getMoneyFlows, MINT_ACCOUNT } from "./moneyFlow";
+
+function transfer(token: string, from: string, to: string, amount: bigint): ScenarioEventRecord {
+  return { contract: token, name: "Transfer", args: [from, to, amount] };
+}
+
+function createScenario(...events: ScenarioEventRecord[][]): StoredScenario {
+  const logs: ScenarioLogRecord[] = events.map(stepEvents => ({
+    type: "methodCall",
+    methodFragment: FunctionFragment.from("function run()"),
+    caller: "alice",
+    contract: "desk",
+    args: [],
+    balances: { BRLC: {}, USDT: {} },
+    events: stepEvents,
+  }));
+  return new StoredScenario("Scenario", logs);
+}
+
+describe("moneyFlow", () => {
+  describe("getMoneyFlows()", () => {
+    it("nets the transfers in both directions between two holders", () => {
+      const scenario = createScenario(
+        [transfer("BRLC", "alice", "desk", 100n)],
+        [transfer("BRLC", "desk", "alice", 30n), transfer("BRLC", "desk", "bob", 20n)],
+      );
+
+      expect(getMoneyFlows(scenario)).to.deep.equal([
+        { token: "BRLC", from: "alice", to: "desk", amount: 70n },
+        { token: "BRLC", from: "desk", to: "bob", amount: 20n },
+      ]);
+    });
+
+    it("reverses the flow when the returned amount is greater", () => {
+      const scenario = createScenario([transfer("BRLC", "alice", "desk", 10n), transfer("BRLC", "desk", "alice", 40n)]);
+
+      expect(getMoneyFlows(scenario)).to.deep.equal([{ token: "BRLC", from: "desk", to: "alice", amount: 30n }]);
+    });
+
+    it("skips the self-transfers and the fully returned amounts", () => {
+      const scenario = createScenario([
+        transfer("BRLC", "alice", "desk", 10n),
+        transfer("BRLC", "desk", "desk", 50n),
+        transfer("BRLC", "desk", "alice", 10n),
+      ]);
+
+      expect(getMoneyFlows(scenario)).to.deep.equal([]);
+    });
+
+    it("shows the mints and burns as the flows of the pseudo-accounts", () => {
+      const scenario = createScenario([
+        transfer("USDT", ZeroAddress, "alice", 5n),
+        transfer("BRLC", "bob", ZeroAddress, 7n),
+      ]);
+
+      expect(getMoneyFlows(scenario)).to.deep.equal([
+        { token: "BRLC", from: "bob", to: BURN_ACCOUNT, amount: 7n },
+        { token: "USDT", from: MINT_ACCOUNT, to: "alice", amount: 5n },
+      ]);
+    });
+
+    it("ignores the events of other contracts and other events of the tokens", () => {
+      const scenario = createScenario([
+        transfer("desk", "alice", "bob", 1n),
+        { contract: "BRLC", name: "Approval", args: ["alice", "desk", 1n] },
+      ]);
+
+      expect(getMoneyFlows(scenario)).to.deep.equal([]);
+    });
+  });
+});
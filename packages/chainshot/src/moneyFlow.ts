@@ -0,0 +1,116 @@
+import { ZeroAddress } from "ethers";
+import type { RenderableScenario, Scenario } from "./Scenario";
+import { stringifyValue } from "./utils";
+
+// pseudo-accounts of the tokens minted from and burned to the zero address
+export const MINT_ACCOUNT = "Mint";
+export const BURN_ACCOUNT = "Burn";
+
+/**
+ * The net amount of a token moved from one holder to another during a scenario.
+ */
+export interface MoneyFlow {
+  token: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Token name -> labels of the holders whose total balance must not change during the scenario.
+ */
+export type TokenConservation = Record<string, string[]>;
+
+function toAmount(value: unknown): bigint | undefined {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value))) {
+    return BigInt(value);
+  }
+}
+
+function toHolder(value: unknown, zeroAccount: string): string {
+  return typeof value === "string" && value.toLowerCase() === ZeroAddress ? zeroAccount : stringifyValue(value);
+}
+
+/**
+ * Collects the net token flows between holders from the `Transfer` events of the tokens in the successful steps.
+ * Transfers in both directions between two holders are netted, self-transfers are skipped, mints and burns are shown
+ * as flows from the `Mint` and to the `Burn` pseudo-accounts.
+ */
+export function getMoneyFlows(scenario: RenderableScenario): MoneyFlow[] {
+  // token -> "from\nto" -> amount, the keys keep the order of the first transfer
+  const totals = new Map<string, Map<string, bigint>>(scenario.tokenNames.map(token => [token, new Map()]));
+  for (const log of scenario.callLogs) {
+    for (const event of log.events) {
+      const tokenTotals = totals.get(event.contract);
+      const amount = toAmount(event.args[2]);
+      if (!tokenTotals || event.name !== "Transfer" || amount === undefined) {
+        continue;
+      }
+      const from = toHolder(event.args[0], MINT_ACCOUNT);
+      const to = toHolder(event.args[1], BURN_ACCOUNT);
+      // a self-transfer moves nothing and must not be netted against the transfers in the other direction
+      if (from === to) {
+        continue;
+      }
+      const reverseKey = `${to}\n${from}`;
+      if (tokenTotals.has(reverseKey)) {
+        tokenTotals.set(reverseKey, (tokenTotals.get(reverseKey) ?? 0n) - amount);
+      } else {
+        const key = `${from}\n${to}`;
+        tokenTotals.set(key, (tokenTotals.get(key) ?? 0n) + amount);
+      }
+    }
+  }
+
+  const flows: MoneyFlow[] = [];
+  for (const [token, tokenTotals] of totals) {
+    for (const [key, amount] of tokenTotals) {
+      const [from, to] = key.split("\n");
+      if (amount > 0n) {
+        flows.push({ token, from, to, amount });
+      } else if (amount < 0n) {
+        flows.push({ token, from: to, to: from, amount: -amount });
+      }
+    }
+  }
+  return flows;
+}
+
+/**
+ * Checks that the total balance of the given holders of every token is the same as at the scenario start,
+ * i.e. the tokens only moved between them.
+ *
+ * @returns the list of violated conservations with the flows that crossed the holders group, empty if all is fine
+ */
+export async function checkTokenConservation(scenario: Scenario, conservation: TokenConservation): Promise<string[]> {
+  const balances = await scenario.getBalances("latest");
+  const violations: string[] = [];
+  for (const [token, holders] of Object.entries(conservation)) {
+    const startBalances = scenario.startBalances[token];
+    if (!startBalances) {
+      throw new Error(`Token "${token}" is not found in the scenario config`);
+    }
+    const unknownHolder = holders.find(holder => startBalances[holder] === undefined);
+    if (unknownHolder) {
+      throw new Error(`Balance holder "${unknownHolder}" is not found in the scenario config`);
+    }
+    const totalBefore = holders.reduce((total, holder) => total + startBalances[holder], 0n);
+    const totalAfter = holders.reduce((total, holder) => total + balances[token][holder], 0n);
+    if (totalBefore === totalAfter) {
+      continue;
+    }
+    const crossingFlows = getMoneyFlows(scenario)
+      .filter(flow => flow.token === token && holders.includes(flow.from) !== holders.includes(flow.to))
+      .map(flow => `  ${flow.from} -> ${flow.to}: ${scenario.formatTokenAmount(token, flow.amount)}`);
+    violations.push(
+      `${token} is not conserved across ${holders.join(", ")}: ` +
+      `${scenario.formatTokenAmount(token, totalBefore)} -> ${scenario.formatTokenAmount(token, totalAfter)} ` +
+      `(${scenario.formatTokenAmount(token, totalAfter - totalBefore, true)})`,
+      ...crossingFlows,
+    );
+  }
+  return violations;
+}
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { encodeBytes32String, ParamType } from "ethers";
+import { bytes32String, sequentialAliases, ValueNormalizer } from "./normalization";
+
+const START_TIMESTAMP = 1_700_000_000n;
+const DAY = 24n * 60n * 60n;
+
+describe("normalization", () => {
+  describe("sequentialAliases()", () => {
+    it("aliases the distinct values in order of first appearance, case-insensitively", () => {
+      const alias = sequentialAliases("cashOut");
+
+      expect(alias("0xAB")).to.equal("cashOut#1");
+      expect(alias("0xcd")).to.equal("cashOut#2");
+      expect(alias("0xab")).to.equal("cashOut#1");
+    });
+
+    it("keeps separate aliases for every formatter", () => {
+      const first = sequentialAliases("id");
+      const second = sequentialAliases("id");
+
+      first("0x01");
+
+      expect(second("0x02")).to.equal("id#1");
+    });
+  });
+
+  describe("bytes32String()", () => {
+    it("decodes the short strings and keeps the other values", () => {
+      expect(bytes32String(encodeBytes32String("cashOut-1"))).to.equal("cashOut-1");
+      expect(bytes32String("0x1234")).to.equal("0x1234");
+      expect(bytes32String(1n)).to.equal(1n);
+    });
+  });
+
+  describe("ValueNormalizer", () => {
+    it("renders the timestamps relative to the scenario start", () => {
+      const normalizer = new ValueNormalizer({}, START_TIMESTAMP);
+      const params = ["uint256 timestamp", "uint256 dueDate", "uint256 releasedAt", "uint256 amount"]
+        .map(param => ParamType.from(param));
+
+      expect(normalizer.normalizeParams(params, [START_TIMESTAMP + DAY, START_TIMESTAMP - 10n, 0n, START_TIMESTAMP]))
+        .to.deep.equal([`T+${DAY}`, "T-10", 0n, START_TIMESTAMP]);
+    });
+
+    it("keeps the durations and the timestamps without the scenario start", () => {
+      const params = [ParamType.from("uint256 duration"), ParamType.from("uint256 deadline")];
+
+      expect(new ValueNormalizer({}, START_TIMESTAMP).normalizeParams(params, [DAY, 30n * DAY]))
+        .to.deep.equal([DAY, 30n * DAY]);
+      expect(new ValueNormalizer({}).normalizeParams(params, [DAY, START_TIMESTAMP]))
+        .to.deep.equal([DAY, START_TIMESTAMP]);
+    });
+
+    it("applies the formatters to the struct fields and the array items", () => {
+      const normalizer = new ValueNormalizer({ id: sequentialAliases("op") }, START_TIMESTAMP);
+      const params = [
+        ParamType.from("tuple(bytes32 id, uint256 createdAt) operation"),
+        ParamType.from("bytes32[] id"),
+      ];
+
+      expect(normalizer.normalizeParams(params, [["0xaa", START_TIMESTAMP + 5n], ["0xbb", "0xaa"]]))
+        .to.deep.equal([["op#1", "T+5"], "op#2"]);
+    });
+
+    it("normalizes the named fields of the view function results", () => {
+      const normalizer = new ValueNormalizer({ id: sequentialAliases("op") }, START_TIMESTAMP);
+
+      expect(normalizer.normalizeFields("operation", { id: "0xaa", items: [{ id: "0xbb", time: START_TIMESTAMP }] }))
+        .to.deep.equal({ id: "op#1", items: [{ id: "op#2", time: "T+0" }] });
+    });
+  });
+});
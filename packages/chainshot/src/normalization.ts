@@ -0,0 +1,108 @@
+import { decodeBytes32String, ParamType } from "ethers";
+
+/**
+ * Converts a decoded value to a stable and readable form, e.g. a random `bytes32` id to `cashOut#1`.
+ */
+export type ScenarioValueFormatter = (value: unknown) => unknown;
+
+// names of the arguments and fields holding timestamps, e.g. `timestamp`, `dueDate`, `expiresAt`
+const TIMESTAMP_NAME = /^(timestamp|time|date|deadline)$|(Timestamp|Time|Date|Deadline|At)$/;
+// values further from the scenario start are durations or amounts rather than timestamps
+const MAX_TIMESTAMP_DISTANCE = 20n * 365n * 24n * 60n * 60n;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Applies the value formatters and renders timestamps relative to the scenario start, like `T+86400`.
+ * Values are matched by the names of their ABI parameters or fields.
+ */
+export class ValueNormalizer {
+  constructor(
+    private formatters: Record<string, ScenarioValueFormatter>,
+    private startTimestamp?: bigint, // timestamps are kept as is if undefined
+  ) {}
+
+  /**
+   * Normalizes values decoded with ABI parameters, like method and event arguments, including struct fields.
+   */
+  normalizeParams(params: readonly ParamType[], values: readonly unknown[]): unknown[] {
+    return values.map((value, index) => this.normalizeParam(params[index], value));
+  }
+
+  /**
+   * Normalizes values with named fields, like the decoded results of view functions.
+   */
+  normalizeFields(name: string, value: unknown): unknown {
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, fieldValue]) => [key, this.normalizeFields(key, fieldValue)]),
+      );
+    }
+    if (Array.isArray(value) && !this.formatters[name]) {
+      return value.map(item => this.normalizeFields(name, item));
+    }
+    return this.normalizeNamedValue(name, value);
+  }
+
+  private normalizeParam(param: ParamType | undefined, value: unknown): unknown {
+    if (!param) {
+      return value;
+    }
+    if (!Array.isArray(value) || this.formatters[param.name]) {
+      return this.normalizeNamedValue(param.name, value);
+    }
+    if (param.isTuple()) {
+      return this.normalizeParams(param.components, value);
+    }
+    if (param.isArray()) {
+      return value.map(item => this.normalizeParam(param.arrayChildren, item));
+    }
+    return value;
+  }
+
+  private normalizeNamedValue(name: string, value: unknown): unknown {
+    const formatter = this.formatters[name];
+    if (formatter) {
+      return formatter(value);
+    }
+    if (this.startTimestamp !== undefined && TIMESTAMP_NAME.test(name) && typeof value === "bigint") {
+      const offset = value - this.startTimestamp;
+      if (value !== 0n && offset <= MAX_TIMESTAMP_DISTANCE && offset >= -MAX_TIMESTAMP_DISTANCE) {
+        return `T${offset < 0n ? "-" : "+"}${offset < 0n ? -offset : offset}`;
+      }
+    }
+    return value;
+  }
+}
+
+/**
+ * Decodes a `bytes32` value holding a short string, e.g. an id created with `encodeBytes32String("cashOut-1")`.
+ * Other values are kept as is.
+ */
+export function bytes32String(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return decodeBytes32String(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Creates a formatter replacing every distinct value with a sequential alias in order of first appearance,
+ * e.g. `cashOut#1`, `cashOut#2`, for random ids. Create a new formatter for every scenario.
+ */
+export function sequentialAliases(prefix: string): ScenarioValueFormatter {
+  const aliases = new Map<string, string>();
+  return (value) => {
+    const key = String(value).toLowerCase();
+    if (!aliases.has(key)) {
+      aliases.set(key, `${prefix}#${aliases.size + 1}`);
+    }
+    return aliases.get(key);
+  };
+}
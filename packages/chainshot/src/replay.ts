@@ -0,0 +1,86 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { toQuantity } from "ethers";
+import type { Scenario } from "./Scenario";
+import type { ScenarioProvider } from "./interception";
+import { extractRevertInfo } from "./utils";
+
+/**
+ * A transaction of a recorded scenario. The caller and the target are the scenario labels if they are known,
+ * so they are resolved against the config of the replayed scenario. The calldata is replayed as is.
+ */
+export interface RecordedTransaction {
+  caller: string;
+  target?: string; // undefined for deployments
+  data: string;
+  value: string;
+  timeOffset: number; // seconds from the scenario start to the block of the transaction
+}
+
+export interface ScenarioRecording {
+  transactions: RecordedTransaction[];
+  logs: string; // the logs of the machine snapshot, serialized like in the snapshot file
+}
+
+// scenario name -> recording
+export type ScenarioRecordings = Record<string, ScenarioRecording>;
+
+function getRecordingsFileName(testFile: string) {
+  const parsed = path.parse(testFile);
+  return path.join(parsed.dir, "__snapshots__", parsed.base + ".replay.json");
+}
+
+export async function readRecordings(testFile: string): Promise<ScenarioRecordings> {
+  try {
+    return JSON.parse(await fs.readFile(getRecordingsFileName(testFile), "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+export async function writeRecording(testFile: string, name: string, recording: ScenarioRecording) {
+  const recordings = await readRecordings(testFile);
+  recordings[name] = recording;
+  const fileName = getRecordingsFileName(testFile);
+  await fs.mkdir(path.dirname(fileName), { recursive: true });
+  await fs.writeFile(fileName, JSON.stringify(recordings, null, 2) + "\n");
+}
+
+/**
+ * Sends the recorded transactions from the same callers to the same targets, keeping the time offsets
+ * from the start of the scenario. The callers are impersonated, so the replay works on the Hardhat network only.
+ * Reverted transactions are recorded by the scenario and skipped.
+ */
+export async function replayTransactions(
+  provider: ScenarioProvider,
+  scenario: Scenario,
+  transactions: RecordedTransaction[],
+) {
+  await scenario.waitForInitialization();
+  for (const transaction of transactions) {
+    const from = scenario.resolveLabel(transaction.caller);
+    const latestBlock = await provider.getBlock("latest");
+    const timestamp = scenario.startTimestamp + transaction.timeOffset;
+    // the timestamps of blocks only grow, so the transactions of a block go to the next ones
+    if (latestBlock && timestamp > latestBlock.timestamp) {
+      await provider.send("evm_setNextBlockTimestamp", [toQuantity(timestamp)]);
+    }
+    await provider.send("hardhat_impersonateAccount", [from]);
+    try {
+      await provider.send("eth_sendTransaction", [{
+        from,
+        to: transaction.target !== undefined ? scenario.resolveLabel(transaction.target) : undefined,
+        data: transaction.data,
+        value: toQuantity(BigInt(transaction.value)),
+      }]);
+    } catch (error) {
+      // the reverted transaction is recorded as a step of the scenario
+      const { data, txHash } = extractRevertInfo(error);
+      if (data === undefined && txHash === undefined) {
+        throw error;
+      }
+    } finally {
+      await provider.send("hardhat_stopImpersonatingAccount", [from]);
+    }
+  }
+}
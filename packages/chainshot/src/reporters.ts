@@ -0,0 +1,74 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import type { RenderableScenario } from "./Scenario";
+import { dumpScenariosToHumans, getReportFileName, renderScenariosTemplate } from "./scenarioLogs2Humans";
+import { getMoneyFlows } from "./moneyFlow";
+
+/**
+ * Writes the scenarios of a test file in some format, e.g. a Markdown or HTML report.
+ * Reporters are called once per test file after all tests, see `mochaHooks({ reporters })`.
+ */
+export interface ScenarioReporter {
+  report(testFile: string, scenarios: RenderableScenario[], networkName: string): Promise<void>;
+}
+
+export type BuiltinReporterName = "markdown" | "json" | "html";
+
+/**
+ * Creates a reporter rendering a custom Handlebars template into `__snapshots__humans__/YourTest.<extension>`.
+ * The template gets `testTitle` and `scenarios`, and can use the helpers and partials of the built-in templates.
+ */
+export function templateReporter(templateFile: string, extension: string): ScenarioReporter {
+  return {
+    async report(testFile, scenarios, networkName) {
+      const reportFile = await getReportFileName(testFile, networkName, extension);
+      await fs.writeFile(reportFile, await renderScenariosTemplate(templateFile, testFile, scenarios));
+    },
+  };
+}
+
+export const markdownReporter: ScenarioReporter = {
+  report: dumpScenariosToHumans,
+};
+
+export const htmlReporter: ScenarioReporter = templateReporter(
+  path.resolve(__dirname, "./templates/humanSnapshot.html.hbs"),
+  "html",
+);
+
+function scenarioToJSON(scenario: RenderableScenario) {
+  return {
+    name: scenario.name,
+    logs: scenario.logs.map((log) => {
+      if (log.type === "initialState") {
+        return log;
+      }
+      const { methodFragment, ...logWithoutFragment } = log;
+      return { ...logWithoutFragment, method: methodFragment.format("sighash") };
+    }),
+    roles: scenario.roles,
+    moneyFlows: getMoneyFlows(scenario),
+  };
+}
+
+export const jsonReporter: ScenarioReporter = {
+  async report(testFile, scenarios, networkName) {
+    const reportFile = await getReportFileName(testFile, networkName, "json");
+    const content = JSON.stringify(
+      { testTitle: path.parse(testFile).name, scenarios: scenarios.map(scenarioToJSON) },
+      (_, value) => typeof value === "bigint" ? value.toString() : value,
+      2,
+    );
+    await fs.writeFile(reportFile, content + "\n");
+  },
+};
+
+const builtinReporters: Record<BuiltinReporterName, ScenarioReporter> = {
+  markdown: markdownReporter,
+  json: jsonReporter,
+  html: htmlReporter,
+};
+
+export function resolveReporter(reporter: ScenarioReporter | BuiltinReporterName): ScenarioReporter {
+  return typeof reporter === "string" ? builtinReporters[reporter] : reporter;
+}
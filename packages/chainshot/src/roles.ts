@@ -0,0 +1,149 @@
+import type { BaseContract, BlockTag, FunctionFragment } from "ethers";
+import type { ScenarioProvider } from "./interception";
+
+export interface RoleState {
+  admin?: string;
+  holders: string[];
+}
+
+// contract -> role name -> admin role and holders
+export type RolesMatrix = Record<string, Record<string, RoleState>>;
+
+async function callView(
+  provider: ScenarioProvider,
+  contract: BaseContract,
+  name: string,
+  args: unknown[],
+  blockTag: BlockTag,
+) {
+  const result = await provider.call({
+    to: contract.target,
+    data: contract.interface.encodeFunctionData(name, args),
+    blockTag,
+  });
+  return contract.interface.decodeFunctionResult(name, result)[0];
+}
+
+/**
+ * Collects the role constants exposed by the contracts, like `OWNER_ROLE()`, as a map of role hashes to names.
+ */
+export async function collectRoleNames(
+  provider: ScenarioProvider,
+  contracts: Record<string, BaseContract>,
+): Promise<Record<string, string>> {
+  const roleNames: Record<string, string> = {};
+  for (const contract of Object.values(contracts)) {
+    const roleFragments: FunctionFragment[] = [];
+    contract.interface.forEachFunction((fragment) => {
+      if (fragment.name.endsWith("_ROLE") && fragment.inputs.length === 0) {
+        roleFragments.push(fragment);
+      }
+    });
+    for (const fragment of roleFragments) {
+      try {
+        const role = await callView(provider, contract, fragment.name, [], "latest");
+        roleNames[String(role).toLowerCase()] = fragment.name;
+      } catch {
+        // not a role constant
+      }
+    }
+  }
+  return roleNames;
+}
+
+/**
+ * Reads the admin role and the holders of every known role for the contracts supporting `hasRole()`.
+ */
+export async function collectRolesMatrix(
+  provider: ScenarioProvider,
+  contracts: Record<string, BaseContract>,
+  roleNames: Record<string, string>,
+  holders: Record<string, string>,
+  blockTag: BlockTag,
+): Promise<RolesMatrix> {
+  const matrix: RolesMatrix = {};
+  for (const [contractName, contract] of Object.entries(contracts)) {
+    if (!contract.interface.getFunction("hasRole(bytes32,address)")) {
+      continue;
+    }
+    const hasRoleAdmin = !!contract.interface.getFunction("getRoleAdmin(bytes32)");
+    const contractRoles: Record<string, RoleState> = {};
+    for (const [role, roleName] of Object.entries(roleNames)) {
+      const roleState: RoleState = { holders: [] };
+      if (hasRoleAdmin) {
+        const adminRole = String(await callView(provider, contract, "getRoleAdmin", [role], blockTag)).toLowerCase();
+        roleState.admin = roleNames[adminRole] ?? adminRole;
+      }
+      for (const [holderName, holderAddress] of Object.entries(holders)) {
+        if (await callView(provider, contract, "hasRole", [role, holderAddress], blockTag)) {
+          roleState.holders.push(holderName);
+        }
+      }
+      contractRoles[roleName] = roleState;
+    }
+    matrix[contractName] = contractRoles;
+  }
+  return matrix;
+}
+
+/**
+ * Replaces the known role hashes with the role constant names, e.g. for the human report.
+ */
+export function resolveRoleNames<T>(roleNames: Record<string, string>, data: T): T {
+  if (typeof data === "string") {
+    return (roleNames[data.toLowerCase()] ?? data) as T;
+  }
+  if (Array.isArray(data)) {
+    return data.map(item => resolveRoleNames(roleNames, item)) as T;
+  }
+  if (typeof data === "object" && data !== null && Object.getPrototypeOf(data) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [key, resolveRoleNames(roleNames, value)]),
+    ) as T;
+  }
+  return data;
+}
+
+export interface RolesMatrixRow {
+  contract: string;
+  role: string;
+  admin?: string;
+  holders: string[];
+}
+
+/**
+ * Lists the roles that have at least one holder, for the human report.
+ */
+export function getRolesMatrixRows(matrix: RolesMatrix): RolesMatrixRow[] {
+  return Object.entries(matrix).flatMap(([contract, contractRoles]) =>
+    Object.entries(contractRoles)
+      .filter(([, roleState]) => roleState.holders.length > 0)
+      .map(([role, roleState]) => ({ contract, role, ...roleState })),
+  );
+}
+
+/**
+ * Applies a decoded `RoleGranted`, `RoleRevoked` or `RoleAdminChanged` event to the roles matrix.
+ * Other events are ignored.
+ */
+export function applyRoleEvent(
+  matrix: RolesMatrix,
+  roleNames: Record<string, string>,
+  event: { contract: string; name: string; args: unknown[] },
+) {
+  if (!["RoleGranted", "RoleRevoked", "RoleAdminChanged"].includes(event.name)) {
+    return;
+  }
+  const [roleArg, accountOrPreviousAdmin, newAdmin] = event.args.map(String);
+  const roleName = roleNames[roleArg.toLowerCase()] ?? roleArg;
+  const contractRoles = matrix[event.contract] ??= {};
+  const roleState = contractRoles[roleName] ??= { holders: [] };
+
+  if (event.name === "RoleGranted" && !roleState.holders.includes(accountOrPreviousAdmin)) {
+    roleState.holders.push(accountOrPreviousAdmin);
+  } else if (event.name === "RoleRevoked") {
+    roleState.holders = roleState.holders.filter(holder => holder !== accountOrPreviousAdmin);
+  } else if (event.name === "RoleAdminChanged") {
+    roleState.admin = roleNames[newAdmin.toLowerCase()] ?? newAdmin;
+  }
+}
@@ -0,0 +1,58 @@
+import path from "node:path";
+import { expect } from "chai";
+import { FunctionFragment } from "ethers";
+import type { ScenarioInfoRecord, ScenarioLogRecord } from "./Scenario";
+import { StoredScenario } from "./StoredScenario";
+import { renderScenariosTemplate } from "./scenarioLogs2Humans";
+
+const MARKDOWN_TEMPLATE = path.resolve(__dirname, "./templates/humanSnapshot.md.hbs");
+
+function createScenario(tokenUnits?: ScenarioInfoRecord["tokenUnits"]): StoredScenario {
+  const log: ScenarioLogRecord = {
+    type: "methodCall",
+    methodFragment: FunctionFragment.from("function deposit(uint256 amount, string note)"),
+    caller: "alice",
+    contract: "desk",
+    args: [100n, "<Alice's deposit>"],
+    balances: { BRLC: { alice: 900n, desk: 100n } },
+    events: [
+      { contract: "BRLC", name: "Transfer", args: ["alice", "desk", 100n] },
+      { contract: "desk", name: "Deposited", args: ["alice", 100n, "<Alice's deposit>"] },
+    ],
+  };
+  const info: ScenarioInfoRecord = {
+    type: "scenario",
+    name: "Deposit",
+    position: [0, 0],
+    keyOrder: {},
+    eventArgNames: {
+      "BRLC.Transfer": ["from", "to", "value"],
+      "desk.Deposited": ["account", "amount", "note"],
+    },
+    roleNames: {},
+    tokenUnits,
+  };
+  return new StoredScenario("Deposit", [log], info);
+}
+
+describe("scenarioLogs2Humans", () => {
+  describe("renderScenariosTemplate()", () => {
+    it("does not escape the arguments in the Markdown report", async () => {
+      const report = await renderScenariosTemplate(MARKDOWN_TEMPLATE, "Desk.test.ts", [createScenario()]);
+
+      expect(report).to.contain("`{\"from\":\"alice\",\"to\":\"desk\",\"value\":\"100\"}`");
+      expect(report).to.contain("| [100, <Alice's deposit>] |");
+      expect(report).not.to.match(/&quot;|&#x27;|&lt;|&gt;|&amp;/);
+    });
+
+    it("renders the values of the token transfers in the token units", async () => {
+      const scenario = createScenario({ BRLC: { decimals: 2, symbol: "BRLC" } });
+
+      const report = await renderScenariosTemplate(MARKDOWN_TEMPLATE, "Desk.test.ts", [scenario]);
+
+      expect(report).to.contain("| BRLC | Transfer | `{\"from\":\"alice\",\"to\":\"desk\",\"value\":\"BRLC 1\"}` |");
+      // the amounts of other events are not known to be in the token units
+      expect(report).to.contain("| 2 | desk | Deposited | `{\"account\":\"alice\",\"amount\":\"100\",");
+    });
+  });
+});
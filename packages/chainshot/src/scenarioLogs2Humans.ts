@@ -1,35 +1,130 @@
 import path from "node:path";
 import fs from "node:fs/promises";
-import type { Scenario } from "./Scenario";
+import type { RenderableScenario, ScenarioEventRecord, ScenarioLogRecord } from "./Scenario";
 import Handlebars from "handlebars";
-import { strigifyLogArgumentsVerbose, stringifyInline, stringifyMultiline } from "./utils";
+import {
+  getBalanceDeltas,
+  getEventArgs,
+  getStateChanges,
+  strigifyLogArgumentsVerbose,
+  stringifyCallTrace,
+  stringifyError,
+  stringifyGas,
+  stringifyInline,
+  stringifyMultiline,
+  stringifyValue,
+} from "./utils";
 import { renderSequenceDiagram } from "./sequenceDiagram";
+import { getTotalGasUsed } from "./gas";
+import { getRolesMatrixRows } from "./roles";
+import { getMoneyFlows } from "./moneyFlow";
 
-async function getFileName(testFile: string) {
+export async function getReportFileName(testFile: string, networkName: string, extension: string) {
   const parsed = path.parse(testFile);
-  const snapshotsDir = path.join(parsed.dir, "__snapshots__humans__");
+  // reports of other networks are kept aside to be diffed against the Hardhat ones
+  const snapshotsDir = path.join(parsed.dir, "__snapshots__humans__", networkName === "hardhat" ? "" : networkName);
   await fs.mkdir(snapshotsDir, { recursive: true });
-  return path.join(snapshotsDir, parsed.name + ".md");
+  return path.join(snapshotsDir, parsed.name + "." + extension);
 }
 
 Handlebars.registerHelper("stringify-inline", stringifyInline);
 Handlebars.registerHelper("stringify-multiline", stringifyMultiline);
 Handlebars.registerHelper("strigifyLogArgumentsVerbose", strigifyLogArgumentsVerbose);
+Handlebars.registerHelper("stringify-error", stringifyError);
+Handlebars.registerHelper("stringify-gas", stringifyGas);
+Handlebars.registerHelper("stringify-call-trace", stringifyCallTrace);
+Handlebars.registerHelper("total-gas", getTotalGasUsed);
+Handlebars.registerHelper("format-amount", function (scenario: RenderableScenario, tokenName: string, amount: unknown) {
+  return scenario.formatTokenAmount(tokenName, amount);
+});
 Handlebars.registerHelper("mermaid", renderSequenceDiagram);
+Handlebars.registerHelper("stringify-args", function (scenario: RenderableScenario, args: unknown) {
+  return stringifyValue(scenario.resolveRoleNames(args));
+});
+Handlebars.registerHelper("stringify-event-args", function (scenario: RenderableScenario, event: ScenarioEventRecord) {
+  // the token transfers are rendered in token units like the balances and the sequence diagram
+  if (scenario.config.formatTokenAmounts && scenario.tokenNames.includes(event.contract) && event.name === "Transfer") {
+    const [from, to, value, ...rest] = event.args;
+    event = { ...event, args: [from, to, scenario.formatTokenAmount(event.contract, value), ...rest] };
+  }
+  return stringifyValue(scenario.resolveRoleNames(getEventArgs(event)));
+});
+Handlebars.registerHelper("stringify-log-arguments", function (scenario: RenderableScenario, log: ScenarioLogRecord) {
+  return strigifyLogArgumentsVerbose({ ...log, args: scenario.resolveRoleNames(log.args) });
+});
+Handlebars.registerHelper("roles-matrix", function (scenario: RenderableScenario) {
+  return getRolesMatrixRows(scenario.roles);
+});
+Handlebars.registerHelper("money-flows", function (scenario: RenderableScenario) {
+  return getMoneyFlows(scenario)
+    .map(flow => ({ ...flow, amount: scenario.formatTokenAmount(flow.token, flow.amount) }));
+});
+Handlebars.registerHelper("call-logs", function (scenario: RenderableScenario) {
+  return scenario.callLogs;
+});
+Handlebars.registerHelper("initial-state", function (scenario: RenderableScenario) {
+  return scenario.initialState;
+});
+Handlebars.registerHelper("balance-deltas", function (scenario: RenderableScenario, log: ScenarioLogRecord) {
+  const previousLog = scenario.logs[scenario.logs.indexOf(log) - 1];
+  return getBalanceDeltas(previousLog?.balances ?? {}, log.balances);
+});
+Handlebars.registerHelper("state-changes", function (scenario: RenderableScenario, log: ScenarioLogRecord) {
+  const previousLog = scenario.logs[scenario.logs.indexOf(log) - 1];
+  return getStateChanges(previousLog?.state, log.state ?? {});
+});
+Handlebars.registerHelper("format-delta", function (scenario: RenderableScenario, tokenName: string, delta: bigint) {
+  return scenario.formatTokenAmount(tokenName, delta, true);
+});
 Handlebars.registerHelper("inc", function (value: string) {
   return parseInt(value) + 1;
 });
-async function getDumpMDFileContent(testFile: string, scenarios: Scenario[]) {
-  const template = await fs.readFile(path.resolve(__dirname, "./templates/humanSnapshot.md.hbs"), "utf8")
-    .then(t => Handlebars.compile(t));
+// the Mermaid bundle embedded into the HTML reports, so they are rendered without internet access
+let mermaidScript: string | undefined;
+
+async function readMermaidScript(): Promise<string> {
+  // a `</script>` inside the bundle would close the inline script
+  mermaidScript ??= (await fs.readFile(require.resolve("mermaid/dist/mermaid.min.js"), "utf8"))
+    .replace(/<\/script/gi, "<\\/script");
+  return mermaidScript;
+}
+
+/**
+ * Renders the scenarios of a test file with a Handlebars template.
+ * The template can use all the helpers above, the `mermaid-script` helper inlining the Mermaid bundle,
+ * and the `balances` and `balances-html` partials.
+ */
+export async function renderScenariosTemplate(templateFile: string, testFile: string, scenarios: RenderableScenario[]) {
+  Handlebars.registerPartial(
+    "balances",
+    await fs.readFile(path.resolve(__dirname, "./templates/balances.md.hbs"), "utf8"),
+  );
+  Handlebars.registerPartial(
+    "balances-html",
+    await fs.readFile(path.resolve(__dirname, "./templates/balances.html.hbs"), "utf8"),
+  );
+  const templateSource = await fs.readFile(templateFile, "utf8");
+  if (templateSource.includes("mermaid-script")) {
+    const script = await readMermaidScript();
+    Handlebars.registerHelper("mermaid-script", () => new Handlebars.SafeString(script));
+  }
+  const template = Handlebars.compile(templateSource);
 
   return template({
     testTitle: path.parse(testFile).name,
     scenarios,
   });
 }
-export async function dumpScenariosToHumans(testFile: string, scenarios: Scenario[]) {
-  const dumpFile = await getFileName(testFile);
-  const dumpFileContent = await getDumpMDFileContent(testFile, scenarios);
+export async function dumpScenariosToHumans(
+  testFile: string,
+  scenarios: RenderableScenario[],
+  networkName = "hardhat",
+) {
+  const dumpFile = await getReportFileName(testFile, networkName, "md");
+  const dumpFileContent = await renderScenariosTemplate(
+    path.resolve(__dirname, "./templates/humanSnapshot.md.hbs"),
+    testFile,
+    scenarios,
+  );
   await fs.writeFile(dumpFile, dumpFileContent);
 }
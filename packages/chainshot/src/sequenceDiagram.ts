@@ -1,5 +1,7 @@
-import { stringifyValue } from "./utils";
-import { Scenario } from "./Scenario";
+import { stringifyError, stringifyValue } from "./utils";
+import { RenderableScenario, ScenarioCallTraceRecord } from "./Scenario";
+
+const ROLE_EVENTS = ["RoleGranted", "RoleRevoked", "RoleAdminChanged"];
 
 function sanitizeMermaidLabel(text: string): string {
   return String(text).replace(/"/g, "'");
@@ -21,16 +23,37 @@ function extractTransfers(events: { name: string; contract: string; args: unknow
   return transfers;
 }
 
-function collectEntities(scenario: Scenario) {
+function collectCallParticipants(calls: ScenarioCallTraceRecord[], ensure: (name: string) => void) {
+  for (const call of calls) {
+    ensure(call.caller);
+    ensure(call.contract);
+    collectCallParticipants(call.calls, ensure);
+  }
+}
+
+// Nested calls are rendered as arrows with activation bars of the called contracts
+function renderCalls(lines: string[], calls: ScenarioCallTraceRecord[], indent: string) {
+  for (const call of calls) {
+    const caller = sanitizeMermaidLabel(call.caller);
+    const contract = sanitizeMermaidLabel(call.contract);
+    const arrow = call.reverted ? "-x" : "->>";
+    lines.push(`${indent}${caller}${arrow}+${contract}: ${sanitizeMermaidLabel(`${call.contract}.${call.method}`)}`);
+    renderCalls(lines, call.calls, indent + "  ");
+    lines.push(`${indent}${contract}-->>-${caller}: ${call.reverted ? "reverted" : "return"}`);
+  }
+}
+
+function collectEntities(scenario: RenderableScenario) {
   const actors = new Set<string>();
   const participants = new Set<string>();
   const ensure = (name: string | undefined) => {
     if (!name) return;
     if (name) participants.add(name);
   };
-  for (const log of scenario.logs) {
+  for (const log of scenario.callLogs) {
     actors.add(String(log.caller));
     ensure(log.contract);
+    collectCallParticipants(log.calls ?? [], ensure);
     const transfers = extractTransfers((log.events || []) as { name: string; contract: string; args: unknown[] }[]);
     for (const t of transfers) {
       ensure(t.from);
@@ -43,7 +66,7 @@ function collectEntities(scenario: Scenario) {
   return { actors: Array.from(actors).sort(), participants: Array.from(participants).sort() };
 }
 
-export function renderSequenceDiagram(scenario: Scenario): string {
+export function renderSequenceDiagram(scenario: RenderableScenario): string {
   const lines: string[] = [];
   lines.push("sequenceDiagram");
   // lines.push("  autonumber");
@@ -51,28 +74,49 @@ export function renderSequenceDiagram(scenario: Scenario): string {
   for (const a of actors) lines.push(`  actor ${sanitizeMermaidLabel(a)}`);
   for (const p of participants) lines.push(`  participant ${sanitizeMermaidLabel(p)}`);
 
-  scenario.logs.forEach((log) => {
+  scenario.callLogs.forEach((log) => {
     const caller = sanitizeMermaidLabel(String(log.caller));
     const contract = sanitizeMermaidLabel(String(log.contract));
-    const title = `${caller} calls ${contract}.${sanitizeMermaidLabel(String(log.methodFragment?.name))}`;
+    const title = log.type === "deployment"
+      ? `${caller} deploys ${contract}`
+      : `${caller} calls ${contract}.${sanitizeMermaidLabel(String(log.methodFragment?.name))}`;
+    if (log.error) {
+      // Red action box with the decoded error instead of events
+      lines.push("  rect rgb(255,230,230)");
+      lines.push(`    ${caller}-x${contract}: ${title}`);
+      renderCalls(lines, log.calls ?? [], "      ");
+      lines.push(`    Note over ${contract}: reverted: ${sanitizeMermaidLabel(stringifyError(log.error))}`);
+      lines.push("  end");
+      return;
+    }
     // Green action box with token arrows inside
     lines.push("  rect rgb(230,255,230)");
     // lines.push(`    Note over ${caller},${contract}: ${title}`);
-    lines.push(`    ${caller}->>${contract}: ${title}`);
+    lines.push(`    ${caller}->>${log.calls ? "+" : ""}${contract}: ${title}`);
+    renderCalls(lines, log.calls ?? [], "      ");
     const orderedEvents = (log.events || []) as { contract: string; name: string; args: unknown[] }[];
     for (const evt of orderedEvents) {
-      if (evt.contract in scenario.config.tokens && evt.name === "Transfer") {
+      if (scenario.tokenNames.includes(evt.contract) && evt.name === "Transfer") {
         const [fromRaw, toRaw, amountRaw] = evt.args as [unknown, unknown, unknown];
         const from = sanitizeMermaidLabel(stringifyValue(fromRaw));
         const to = sanitizeMermaidLabel(stringifyValue(toRaw));
-        const amount = sanitizeMermaidLabel(stringifyValue(amountRaw));
+        const amount = sanitizeMermaidLabel(
+          scenario.config.formatTokenAmounts
+            ? scenario.formatTokenAmount(evt.contract, amountRaw)
+            : stringifyValue(amountRaw),
+        );
         lines.push(`    ${from}-->>${to}: ${evt.contract}.Transfer: ${from} -> ${to} (${amount})`);
       } else {
         const evtContract = sanitizeMermaidLabel(evt.contract);
-        const evtTitle = `${evt.contract}.${evt.name}`;
+        const evtTitle = ROLE_EVENTS.includes(evt.name)
+          ? `${evt.contract}.${evt.name}: ${scenario.resolveRoleNames(evt.args).map(stringifyValue).join(", ")}`
+          : `${evt.contract}.${evt.name}`;
         lines.push(`    Note over ${evtContract}: ${sanitizeMermaidLabel(evtTitle)}`);
       }
     }
+    if (log.calls) {
+      lines.push(`    ${contract}-->>-${caller}: return`);
+    }
     lines.push("  end");
   });
   return lines.join("\n");
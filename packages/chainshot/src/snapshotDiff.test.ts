@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { FunctionFragment } from "ethers";
+import type { ScenarioLogRecord, ScenarioLogs } from "./Scenario";
+import { describeStep, diffScenarioLogs, diffSnapshots } from "./snapshotDiff";
+
+function createCallLog(method: string, args: unknown[], balance = 0n): ScenarioLogRecord {
+  return {
+    type: "methodCall",
+    methodFragment: FunctionFragment.from(`function ${method}(uint256 amount)`),
+    caller: "alice",
+    contract: "desk",
+    args,
+    balances: { BRLC: { alice: balance } },
+    events: [],
+  };
+}
+
+describe("snapshotDiff", () => {
+  describe("describeStep()", () => {
+    it("describes the calls, the deployments and the reverted calls", () => {
+      const call = createCallLog("deposit", [100n]);
+      const deployment: ScenarioLogRecord = { ...call, type: "deployment", contract: "Desk" };
+      const revertedCall: ScenarioLogRecord = {
+        ...call,
+        type: "revertedCall",
+        error: { contract: "desk", name: "NotEnoughBalance", args: [] },
+      };
+
+      expect(describeStep({ type: "initialState", balances: {} })).to.equal("initial state");
+      expect(describeStep(call)).to.equal("alice -> desk.deposit(100)");
+      expect(describeStep(deployment)).to.equal("alice deploys Desk(100)");
+      expect(describeStep(revertedCall)).to.match(/^alice -> desk\.deposit\(100\) reverted with .*NotEnoughBalance/);
+    });
+  });
+
+  describe("diffScenarioLogs()", () => {
+    it("returns nothing for the same logs", () => {
+      const logs: ScenarioLogs = [createCallLog("deposit", [100n]), createCallLog("withdraw", [50n])];
+
+      expect(diffScenarioLogs(logs, logs)).to.deep.equal([]);
+    });
+
+    it("aligns the steps around an inserted and a removed one", () => {
+      const before: ScenarioLogs = [
+        createCallLog("deposit", [100n]),
+        createCallLog("pause", [0n]),
+        createCallLog("withdraw", [50n]),
+      ];
+      const after: ScenarioLogs = [
+        createCallLog("deposit", [100n]),
+        createCallLog("withdraw", [50n]),
+        createCallLog("withdraw", [10n]),
+      ];
+
+      expect(diffScenarioLogs(before, after)).to.deep.equal([
+        "- step 2: alice -> desk.pause(0)",
+        "+ step 3: alice -> desk.withdraw(10)",
+      ]);
+    });
+
+    it("compares a replaced step with the one it replaces", () => {
+      const before: ScenarioLogs = [createCallLog("deposit", [100n]), createCallLog("withdraw", [50n])];
+      const after: ScenarioLogs = [createCallLog("deposit", [100n]), createCallLog("withdraw", [60n])];
+
+      expect(diffScenarioLogs(before, after)).to.deep.equal([
+        "~ step 2: alice -> desk.withdraw(60)",
+        "    - alice -> desk.withdraw(50)",
+        "    + alice -> desk.withdraw(60)",
+      ]);
+    });
+
+    it("lists the changed events and balances of the matched steps", () => {
+      const before = createCallLog("deposit", [100n], 100n);
+      const after: ScenarioLogRecord = {
+        ...createCallLog("deposit", [100n], 90n),
+        events: [{ contract: "BRLC", name: "Transfer", args: ["alice", "desk", 10n] }],
+      };
+
+      expect(diffScenarioLogs([before], [after])).to.deep.equal([
+        "~ step 1: alice -> desk.deposit(100)",
+        "    + event BRLC.Transfer(alice, desk, 10)",
+        "    balance BRLC.alice: 100 -> 90",
+      ]);
+    });
+
+    it("numbers the steps without the initial state", () => {
+      const initialState: ScenarioLogs[number] = { type: "initialState", balances: {} };
+      const before: ScenarioLogs = [initialState];
+      const after: ScenarioLogs = [initialState, createCallLog("deposit", [100n])];
+
+      expect(diffScenarioLogs(before, after)).to.deep.equal(["+ step 1: alice -> desk.deposit(100)"]);
+    });
+  });
+
+  describe("diffSnapshots()", () => {
+    it("reports the added, removed and changed scenarios", () => {
+      const logs: ScenarioLogs = [createCallLog("deposit", [100n])];
+      const changedLogs: ScenarioLogs = [createCallLog("deposit", [200n])];
+
+      const diffs = diffSnapshots(
+        { "Removed 1": logs, "Changed 1": logs, "Same 1": logs },
+        { "Changed 1": changedLogs, "Same 1": logs, "Added 1": logs },
+      );
+
+      expect(diffs.map(({ name, status }) => [name, status])).to.deep.equal([
+        ["Removed 1", "removed"],
+        ["Changed 1", "changed"],
+        ["Added 1", "added"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { ScenarioEventRecord, ScenarioInitialStateRecord, ScenarioLogRecord, ScenarioLogs } from "./Scenario";
+import { flattenState, stringifyCallTrace, stringifyError, stringifyValue } from "./utils";
+
+type ScenarioStep = ScenarioLogRecord | ScenarioInitialStateRecord;
+
+export interface ScenarioDiff {
+  name: string;
+  status: "added" | "removed" | "changed";
+  lines: string[];
+}
+
+interface Alignment {
+  before?: number;
+  after?: number;
+}
+
+/**
+ * Aligns two lists by their longest common subsequence.
+ * Runs of removed and added items between the common ones are paired, so they can be compared as changed.
+ */
+function alignLists(before: string[], after: string[]): Alignment[] {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0));
+  lengths.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const alignment: Alignment[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      alignment.push({ before: removed[k], after: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flushChanges();
+      alignment.push({ before: i++, after: j++ });
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flushChanges();
+  return alignment;
+}
+
+function diffLines(before: string[], after: string[], prefix: string): string[] {
+  const lines: string[] = [];
+  for (const { before: i, after: j } of alignLists(before, after)) {
+    if (i !== undefined && (j === undefined || before[i] !== after[j])) {
+      lines.push(`- ${prefix}${before[i]}`);
+    }
+    if (j !== undefined && (i === undefined || before[i] !== after[j])) {
+      lines.push(`+ ${prefix}${after[j]}`);
+    }
+  }
+  return lines;
+}
+
+function diffFields(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  prefix: string,
+): string[] {
+  const beforeFields = flattenState(before ?? {});
+  const afterFields = flattenState(after ?? {});
+  const fields = [...new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])].filter(field => !!field);
+  return fields
+    .filter(field => stringifyValue(beforeFields[field]) !== stringifyValue(afterFields[field]))
+    .map(field => `${prefix}${field}: ${stringifyValue(beforeFields[field])} -> ${stringifyValue(afterFields[field])}`);
+}
+
+function stringifyEvent(event: ScenarioEventRecord): string {
+  return `${event.contract}.${event.name}(${event.args.map(stringifyValue).join(", ")})`;
+}
+
+export function describeStep(step: ScenarioStep): string {
+  if (step.type === "initialState") {
+    return "initial state";
+  }
+  const args = step.args.map(stringifyValue).join(", ");
+  const call = step.type === "deployment"
+    ? `${step.caller} deploys ${step.contract}(${args})`
+    : `${step.caller} -> ${step.contract}.${step.methodFragment.name}(${args})`;
+  return step.error ? `${call} reverted with ${stringifyError(step.error)}` : call;
+}
+
+function diffSteps(before: ScenarioStep, after: ScenarioStep): string[] {
+  const lines: string[] = [];
+  const beforeCall = before.type === "initialState" ? undefined : before;
+  const afterCall = after.type === "initialState" ? undefined : after;
+  if (describeStep(before) !== describeStep(after)) {
+    lines.push(`- ${describeStep(before)}`, `+ ${describeStep(after)}`);
+  }
+  lines.push(...diffLines(
+    (beforeCall?.events ?? []).map(stringifyEvent),
+    (afterCall?.events ?? []).map(stringifyEvent),
+    "event ",
+  ));
+  lines.push(...diffLines(
+    stringifyCallTrace(beforeCall?.calls ?? []).split("\n").filter(line => !!line),
+    stringifyCallTrace(afterCall?.calls ?? []).split("\n").filter(line => !!line),
+    "call ",
+  ));
+  lines.push(...diffFields(before.balances, after.balances, "balance "));
+  lines.push(...diffFields(before.state, after.state, "state "));
+  lines.push(...diffFields(beforeCall?.customState, afterCall?.customState, "custom state "));
+  return lines;
+}
+
+/**
+ * Compares two versions of the scenario logs step by step: calls, events, internal calls, balances and state.
+ * Steps are aligned by their calls, so an inserted or removed step does not shift the comparison of the others.
+ *
+ * @returns the readable lines of the differences, empty if the logs are the same
+ */
+export function diffScenarioLogs(before: ScenarioLogs, after: ScenarioLogs): string[] {
+  const lines: string[] = [];
+  // the step numbers match the `Idx` column of the human report
+  const stepNumber = (logs: ScenarioLogs, index: number) =>
+    logs.slice(0, index + 1).filter(log => log.type !== "initialState").length;
+  const stepTitle = (logs: ScenarioLogs, index: number) =>
+    logs[index].type === "initialState" ? "initial state" : `step ${stepNumber(logs, index)}`;
+
+  for (const { before: i, after: j } of alignLists(before.map(describeStep), after.map(describeStep))) {
+    if (j === undefined && i !== undefined) {
+      lines.push(`- ${stepTitle(before, i)}: ${describeStep(before[i])}`);
+    } else if (i === undefined && j !== undefined) {
+      lines.push(`+ ${stepTitle(after, j)}: ${describeStep(after[j])}`);
+    } else if (i !== undefined && j !== undefined) {
+      const stepLines = diffSteps(before[i], after[j]);
+      if (stepLines.length > 0) {
+        lines.push(`~ ${stepTitle(after, j)}: ${describeStep(after[j])}`, ...stepLines.map(line => `    ${line}`));
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Compares the scenarios of two versions of a snapshot file, matched by their snapshot names.
+ */
+export function diffSnapshots(
+  before: Record<string, ScenarioLogs>,
+  after: Record<string, ScenarioLogs>,
+): ScenarioDiff[] {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const diffs: ScenarioDiff[] = [];
+  for (const name of names) {
+    if (!(name in after)) {
+      diffs.push({ name, status: "removed", lines: [] });
+    } else if (!(name in before)) {
+      diffs.push({ name, status: "added", lines: [] });
+    } else {
+      const lines = diffScenarioLogs(before[name], after[name]);
+      if (lines.length > 0) {
+        diffs.push({ name, status: "changed", lines });
+      }
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import { FunctionFragment } from "ethers";
+import type { ScenarioInfoRecord, ScenarioLogRecord, ScenarioLogs, ScenarioSnapshot } from "./Scenario";
+import {
+  deserializeScenarioLogs,
+  deserializeScenarioSnapshot,
+  parsePrettyFormat,
+  parseSnapshotFile,
+  serializeScenarioLogs,
+} from "./snapshotFile";
+
+function createCallLog(): ScenarioLogRecord {
+  return {
+    type: "methodCall",
+    methodFragment: FunctionFragment.from("function transfer(address to, uint256 amount) returns (bool)"),
+    caller: "alice",
+    contract: "BRLC",
+    args: ["bob", 100n],
+    balances: { BRLC: { treasury: 900n, alice: 0n, bob: 100n } },
+    events: [{ contract: "BRLC", name: "Transfer", args: ["alice", "bob", 100n] }],
+  };
+}
+
+function createInfo(): ScenarioInfoRecord {
+  return {
+    type: "scenario",
+    name: "Transfers tokens",
+    position: [0, 1],
+    keyOrder: { "balances.BRLC": ["treasury", "alice", "bob"] },
+    eventArgNames: { "BRLC.Transfer": ["from", "to", "value"] },
+    roleNames: {},
+  };
+}
+
+describe("snapshotFile", () => {
+  describe("parseSnapshotFile()", () => {
+    it("reads the entries with the escaped backticks, backslashes and placeholders", () => {
+      const content = [
+        "// Jest Snapshot v1, https://goo.gl/fbAQLP",
+        "",
+        "exports[`Scenario \\`one\\` 1`] = `",
+        "Array [",
+        "  \"a \\\\ b \\${c}\",",
+        "]",
+        "`;",
+        "",
+        "exports[`Scenario two 1`] = `1n`;",
+        "",
+      ].join("\n");
+
+      expect(parseSnapshotFile(content)).to.deep.equal({
+        "Scenario `one` 1": "Array [\n  \"a \\ b ${c}\",\n]",
+        "Scenario two 1": "1n",
+      });
+    });
+
+    it("throws for an unterminated entry", () => {
+      expect(() => parseSnapshotFile("exports[`Scenario 1`] = `Array [")).to.throw("Unterminated backtick string");
+    });
+  });
+
+  describe("parsePrettyFormat()", () => {
+    it("restores the scalars, arrays and objects", () => {
+      const text = [
+        "Object {",
+        "  \"amount\": -100n,",
+        "  \"items\": Array [",
+        "    1.5,",
+        "    true,",
+        "    null,",
+        "    undefined,",
+        "  ],",
+        "  \"name\": \"say \\\"hi\\\"\",",
+        "  \"result\": Result [",
+        "    \"0x01\",",
+        "  ],",
+        "}",
+      ].join("\n");
+
+      expect(parsePrettyFormat(text)).to.deep.equal({
+        amount: -100n,
+        items: [1.5, true, null, undefined],
+        name: "say \"hi\"",
+        result: ["0x01"],
+      });
+    });
+
+    it("throws for the trailing content", () => {
+      expect(() => parsePrettyFormat("1n 2n")).to.throw("Unexpected trailing content");
+    });
+  });
+
+  describe("deserializeScenarioSnapshot()", () => {
+    it("restores the info, the key order and the method fragments of a serialized snapshot", () => {
+      const log = createCallLog();
+      const snapshot: ScenarioSnapshot = [createInfo(), log];
+
+      const { info, logs } = deserializeScenarioSnapshot(serializeScenarioLogs(snapshot));
+
+      expect(info).to.deep.equal(createInfo());
+      expect(logs).to.have.lengthOf(1);
+      const restoredLog = logs[0] as ScenarioLogRecord;
+      expect(Object.keys(restoredLog.balances.BRLC)).to.deep.equal(["treasury", "alice", "bob"]);
+      expect(restoredLog.methodFragment.format("full")).to.equal(log.methodFragment.format("full"));
+      expect(restoredLog.args).to.deep.equal(log.args);
+      expect(restoredLog.events).to.deep.equal(log.events);
+    });
+
+    it("restores the snapshots without the info with the sorted keys", () => {
+      const logs: ScenarioLogs = [{ type: "initialState", balances: { BRLC: { treasury: 1000n, alice: 0n } } }];
+
+      const result = deserializeScenarioSnapshot(serializeScenarioLogs(logs));
+
+      expect(result.info).to.equal(undefined);
+      expect(Object.keys(result.logs[0].balances.BRLC)).to.deep.equal(["alice", "treasury"]);
+    });
+
+    it("throws if the snapshot is not a list", () => {
+      expect(() => deserializeScenarioSnapshot("Object {}")).to.throw("The snapshot is not a list of scenario logs");
+    });
+  });
+
+  describe("deserializeScenarioLogs()", () => {
+    it("drops the info", () => {
+      const logs = deserializeScenarioLogs(serializeScenarioLogs([createInfo(), createCallLog()]));
+
+      expect(logs.map(log => log.type)).to.deep.equal(["methodCall"]);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { FunctionFragment, JsonFragmentType } from "ethers";
+import { format as prettyFormat } from "pretty-format";
+import { ScenarioInfoRecord, ScenarioLogs, ScenarioLogsSymbol, ScenarioSnapshot } from "./Scenario";
+import { applyKeyOrder } from "./utils";
+
+function readBacktickString(content: string, start: number): { value: string; end: number } {
+  if (content[start] !== "`") {
+    throw new Error(`Expected a backtick string at ${start}`);
+  }
+  let value = "";
+  let index = start + 1;
+  while (content[index] !== "`") {
+    if (index >= content.length) {
+      throw new Error("Unterminated backtick string");
+    }
+    // `jest-snapshot` escapes backticks, backslashes and `${`
+    if (content[index] === "\\") {
+      index++;
+    }
+    value += content[index];
+    index++;
+  }
+  return { value, end: index + 1 };
+}
+
+/**
+ * Reads the entries of a Jest snapshot file, like `exports[`Test title 1`] = `...`;`.
+ * The file is parsed instead of being evaluated, so snapshots of any git revision can be read safely.
+ */
+export function parseSnapshotFile(content: string): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const entryStart = "exports[";
+  let index = content.indexOf(entryStart);
+  while (index !== -1) {
+    const key = readBacktickString(content, index + entryStart.length);
+    const valueStart = content.indexOf("`", key.end);
+    const value = readBacktickString(content, valueStart);
+    // the serialized value is wrapped into new lines
+    entries[key.value] = value.value.replace(/^\n/, "").replace(/\n$/, "");
+    index = content.indexOf(entryStart, value.end);
+  }
+  return entries;
+}
+
+/**
+ * Restores values printed by `pretty-format` with the default options of `jest-snapshot`,
+ * e.g. `Object { "amount": 100n }`. Instances of classes like `FunctionFragment` become plain objects.
+ */
+class PrettyFormatParser {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    const value = this.parseValue();
+    this.skipWhitespace();
+    if (this.index < this.text.length) {
+      this.fail("Unexpected trailing content");
+    }
+    return value;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`${message} at ${this.index}: "${this.text.slice(this.index, this.index + 20)}"`);
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.text[this.index] ?? "")) {
+      this.index++;
+    }
+  }
+
+  private consume(token: string) {
+    if (!this.text.startsWith(token, this.index)) {
+      this.fail(`Expected "${token}"`);
+    }
+    this.index += token.length;
+  }
+
+  private parseValue(): unknown {
+    this.skipWhitespace();
+    const rest = this.text.slice(this.index, this.index + 200);
+    if (rest.startsWith("\"")) {
+      return this.parseString();
+    }
+    // instances of anonymous classes, like ethers `Result`, are printed without the class name
+    const container = /^([A-Za-z_$][\w$]* )?([[{])/.exec(rest);
+    if (container) {
+      this.index += container[0].length;
+      return container[2] === "[" ? this.parseArray() : this.parseObject();
+    }
+    const scalar = /^(-?\d+n|-?\d+(\.\d+)?(e[+-]?\d+)?|-?Infinity|NaN|true|false|null|undefined|\[Function [^\]]*\])/
+      .exec(rest);
+    if (!scalar) {
+      this.fail("Unsupported value");
+    }
+    this.index += scalar[0].length;
+    const token = scalar[0];
+    if (token.endsWith("n")) return BigInt(token.slice(0, -1));
+    if (token === "true" || token === "false") return token === "true";
+    if (token === "null") return null;
+    if (token === "undefined" || token.startsWith("[Function")) return undefined;
+    return Number(token);
+  }
+
+  private parseString(): string {
+    this.consume("\"");
+    let value = "";
+    while (this.text[this.index] !== "\"") {
+      if (this.index >= this.text.length) {
+        this.fail("Unterminated string");
+      }
+      if (this.text[this.index] === "\\") {
+        this.index++;
+      }
+      value += this.text[this.index];
+      this.index++;
+    }
+    this.index++;
+    return value;
+  }
+
+  private parseArray(): unknown[] {
+    const items: unknown[] = [];
+    this.skipWhitespace();
+    while (this.text[this.index] !== "]") {
+      items.push(this.parseValue());
+      this.consume(",");
+      this.skipWhitespace();
+    }
+    this.index++;
+    return items;
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const object: Record<string, unknown> = {};
+    this.skipWhitespace();
+    while (this.text[this.index] !== "}") {
+      const key = this.parseString();
+      this.consume(": ");
+      object[key] = this.parseValue();
+      this.consume(",");
+      this.skipWhitespace();
+    }
+    this.index++;
+    return object;
+  }
+}
+
+export function parsePrettyFormat(text: string): unknown {
+  return new PrettyFormatParser(text).parse();
+}
+
+interface StoredParamType {
+  name: string;
+  type: string;
+  components: StoredParamType[] | null;
+  arrayChildren: StoredParamType | null;
+}
+
+function toJsonParamType(param: StoredParamType): JsonFragmentType {
+  // the components of arrays of tuples are stored in their array children
+  let components = param.components;
+  let arrayChildren = param.arrayChildren;
+  while (!components && arrayChildren) {
+    components = arrayChildren.components;
+    arrayChildren = arrayChildren.arrayChildren;
+  }
+  return {
+    name: param.name,
+    type: param.type,
+    ...(components ? { components: components.map(toJsonParamType) } : {}),
+  };
+}
+
+/**
+ * Restores the scenario info and logs from a value of a snapshot file, including the method fragments
+ * and the order of the object keys. The snapshots written before the info was added have no info.
+ */
+export function deserializeScenarioSnapshot(serialized: string): { info?: ScenarioInfoRecord; logs: ScenarioLogs } {
+  const records = parsePrettyFormat(serialized);
+  if (!Array.isArray(records)) {
+    throw new Error("The snapshot is not a list of scenario logs");
+  }
+  const info = records[0]?.type === "scenario" ? records.shift() as ScenarioInfoRecord : undefined;
+  const logs = records.map((storedRecord) => {
+    const record = info ? applyKeyOrder(storedRecord, info.keyOrder) : storedRecord;
+    if (record.type === "initialState") {
+      return record;
+    }
+    const { name, stateMutability, inputs, outputs } = record.methodFragment;
+    const methodFragment = FunctionFragment.from({
+      type: "function",
+      name,
+      stateMutability,
+      inputs: inputs.map(toJsonParamType),
+      outputs: outputs.map(toJsonParamType),
+    });
+    return { ...record, methodFragment };
+  }) as ScenarioLogs;
+  logs[ScenarioLogsSymbol] = true;
+  return { info, logs };
+}
+
+/**
+ * Restores the scenario logs from a value of a snapshot file, without the scenario info.
+ */
+export function deserializeScenarioLogs(serialized: string): ScenarioLogs {
+  return deserializeScenarioSnapshot(serialized).logs;
+}
+
+/**
+ * Serializes the scenario logs like `jest-snapshot` does, so they can be restored with `deserializeScenarioLogs`.
+ */
+export function serializeScenarioLogs(logs: ScenarioLogs | ScenarioSnapshot): string {
+  return prettyFormat(logs, { escapeRegex: true, printFunctionName: false, printBasicPrototype: true });
+}
@@ -0,0 +1,59 @@
+import { expect } from "chai";
+import { ZeroAddress, ZeroHash } from "ethers";
+import { registerKnownConstants, stringifyCallTrace, stringifyValue } from "./utils";
+
+describe("utils", () => {
+  describe("stringifyValue()", () => {
+    it("labels the known hex constants case-insensitively", () => {
+      registerKnownConstants({ "0xABCDEF": "CASH_OUT" });
+
+      expect(stringifyValue(ZeroAddress)).to.equal("ZERO_ADDR");
+      expect(stringifyValue(ZeroHash)).to.equal("ZERO");
+      expect(stringifyValue("0xabcdef")).to.equal("CASH_OUT");
+    });
+
+    it("does not label the decimal values", () => {
+      expect(stringifyValue(0n)).to.equal("0");
+      expect(stringifyValue(0)).to.equal("0");
+      expect(stringifyValue("0")).to.equal("0");
+    });
+
+    it("shortens the long strings", () => {
+      expect(stringifyValue("0x0123456789abcdef0123456789")).to.equal("0x01234567..0123456789");
+      expect(stringifyValue("alice")).to.equal("alice");
+    });
+
+    it("converts the items of the arrays and the leaves of the objects", () => {
+      expect(stringifyValue([1n, ZeroAddress])).to.equal("[1, ZERO_ADDR]");
+      expect(stringifyValue({ amount: 1n, holder: { address: ZeroAddress }, ids: [2n] }))
+        .to.equal("{\"amount\":\"1\",\"holder\":{\"address\":\"ZERO_ADDR\"},\"ids\":[\"2\"]}");
+    });
+  });
+
+  describe("stringifyCallTrace()", () => {
+    it("renders the nested calls and marks the calls with unavailable arguments", () => {
+      const trace = stringifyCallTrace([{
+        type: "CALL",
+        caller: "desk",
+        contract: "BRLC",
+        method: "transfer",
+        args: ["treasury", 100n],
+        calls: [{
+          type: "STATICCALL",
+          caller: "BRLC",
+          contract: "hook",
+          method: "afterTransfer",
+          args: [],
+          argsUnavailable: true,
+          reverted: true,
+          calls: [],
+        }],
+      }]);
+
+      expect(trace).to.equal([
+        "- desk -> BRLC.transfer(treasury, 100)",
+        "  - BRLC -> hook.afterTransfer(…) [STATICCALL] *(arguments unavailable)* **reverted**",
+      ].join("\n"));
+    });
+  });
+});
@@ -1,5 +1,12 @@
-import { AddressLike, getAddress, resolveAddress } from "ethers";
-import { ScenarioLogRecord } from "./Scenario.js";
+import { AddressLike, formatUnits, getAddress, ParamType, resolveAddress, Result } from "ethers";
+import {
+  ScenarioCallTraceRecord,
+  ScenarioErrorRecord,
+  ScenarioEventRecord,
+  ScenarioGasRecord,
+  ScenarioLogRecord,
+  TokenUnits,
+} from "./Scenario.js";
 import { format as prettyFormat } from "pretty-format";
 
 function limitStringLength(str: string, limit: number): string {
@@ -29,6 +36,120 @@ export function normalizeAddress(address: string): string {
   return getAddress(address).toLowerCase();
 }
 
+/**
+ * Extracts the revert data and the transaction hash from an error thrown by the provider.
+ * Hardhat puts them either on the error itself or on its nested `data` object.
+ */
+export function extractRevertInfo(error: unknown): { data?: string; txHash?: string } {
+  if (typeof error !== "object" || error === null) {
+    return {};
+  }
+  interface ErrorWithData { data?: unknown; transactionHash?: unknown }
+  const { data, transactionHash } = error as ErrorWithData;
+  const nested = (typeof data === "object" && data !== null ? data : {}) as ErrorWithData;
+  const revertData = typeof data === "string" ? data : nested.data;
+  const txHash = transactionHash ?? nested.transactionHash;
+  return {
+    data: typeof revertData === "string" && revertData.startsWith("0x") ? revertData : undefined,
+    txHash: typeof txHash === "string" ? txHash : undefined,
+  };
+}
+
+function resultValueToPlain(value: unknown): unknown {
+  if (!(value instanceof Result)) {
+    return value;
+  }
+  try {
+    return value.toObject(true);
+  } catch {
+    // some of the tuple values are unnamed
+    return value.toArray(true);
+  }
+}
+
+/**
+ * Converts the decoded result of a function call to plain values: named outputs and structs become objects.
+ */
+export function resultToRenderable(result: Result, outputs: readonly ParamType[]): unknown {
+  if (outputs.length === 1 && !outputs[0].name) {
+    return resultValueToPlain(result[0]);
+  }
+  return resultValueToPlain(result);
+}
+
+/**
+ * Flattens nested objects and arrays into a record of dotted paths, e.g. `{ "getCashOut(..).amount": 100n }`.
+ */
+export function flattenState(value: unknown, prefix = ""): Record<string, unknown> {
+  if (typeof value === "object" && value !== null) {
+    const entries = Array.isArray(value) ? value.map((item, index) => [String(index), item]) : Object.entries(value);
+    if (entries.length > 0) {
+      return Object.assign({}, ...entries.map(([key, item]) => flattenState(item, prefix ? `${prefix}.${key}` : key)));
+    }
+  }
+  return { [prefix]: value };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function collectObjectKeys(value: unknown, path: string, keyOrder: Record<string, string[]>) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectObjectKeys(item, path, keyOrder));
+  } else if (isPlainObject(value)) {
+    const keys = keyOrder[path] ??= [];
+    for (const [key, item] of Object.entries(value)) {
+      if (!keys.includes(key)) {
+        keys.push(key);
+      }
+      collectObjectKeys(item, path ? `${path}.${key}` : key, keyOrder);
+    }
+  }
+}
+
+/**
+ * Collects the order of the object keys in the records, like `{ "balances.BRLC": ["treasury", "alice"] }`,
+ * to restore it after the snapshot file, where the keys are sorted. The items of an array share its path,
+ * and only the orders different from the sorted one are returned.
+ */
+export function collectKeyOrder(records: object[]): Record<string, string[]> {
+  const keyOrder: Record<string, string[]> = {};
+  for (const record of records) {
+    for (const [key, value] of Object.entries(record)) {
+      collectObjectKeys(value, key, keyOrder);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(keyOrder).filter(([, keys]) => keys.join("\n") !== [...keys].sort().join("\n")),
+  );
+}
+
+function applyObjectKeys(value: unknown, path: string, keyOrder: Record<string, string[]>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => applyObjectKeys(item, path, keyOrder));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const keys = keyOrder[path] ?? [];
+  const getIndex = (key: string) => (keys.includes(key) ? keys.indexOf(key) : keys.length);
+  return Object.fromEntries(
+    Object.entries(value)
+      .sort(([a], [b]) => getIndex(a) - getIndex(b))
+      .map(([key, item]) => [key, applyObjectKeys(item, `${path}.${key}`, keyOrder)]),
+  );
+}
+
+/**
+ * Restores the order of the object keys collected by `collectKeyOrder()`, the unknown keys go last.
+ */
+export function applyKeyOrder<T extends object>(record: T, keyOrder: Record<string, string[]>): T {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, applyObjectKeys(value, key, keyOrder)]),
+  ) as T;
+}
+
 export function onlyOneRunning(fn: () => Promise<void>): () => Promise<void> {
   let running = false;
   return async () => {
@@ -50,11 +171,53 @@ export function mapRecordValues<T, R, K extends string>(
   ) as Record<K, R>;
 }
 
-const knownConstants = {
+// lowercase hex value -> label, decimal values are not labeled to not confuse them with ordinary amounts
+const knownConstants: Record<string, string> = {
   "0x0000000000000000000000000000000000000000": "ZERO_ADDR",
   "0x0000000000000000000000000000000000000000000000000000000000000000": "ZERO",
   "0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff": "MAX_UINT256",
-} as const;
+  "0x000000000000000000000000000000000000dead": "DEAD_ADDR",
+  "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee": "NATIVE_TOKEN",
+  "0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470": "EMPTY_HASH", // keccak256("")
+};
+
+/**
+ * Registers labels for project-specific constants, e.g. `{ [ethers.id("CASH_OUT")]: "CASH_OUT" }`.
+ * The labels are used by all reports, hex values are matched case-insensitively.
+ */
+export function registerKnownConstants(constants: Record<string, string>) {
+  for (const [value, label] of Object.entries(constants)) {
+    knownConstants[value.toLowerCase()] = label;
+  }
+}
+
+/**
+ * Converts the named arguments of an event for the human reports, e.g. decodes packed bytes into fields.
+ */
+export type ScenarioEventFormatter = (args: Record<string, unknown>) => Record<string, unknown>;
+
+// `contract.Event` -> formatter, the contract is its label in the scenario config
+const eventFormatters: Record<string, ScenarioEventFormatter> = {};
+
+/**
+ * Registers a formatter of the event arguments, e.g. `registerEventFormatter("cardPaymentProcessor.PaymentMade", fn)`.
+ */
+export function registerEventFormatter(event: string, formatter: ScenarioEventFormatter) {
+  eventFormatters[event] = formatter;
+}
+
+/**
+ * Returns the event arguments keyed by the names of the event inputs, with the registered formatter applied.
+ * The events restored from the snapshot files have no argument names, so their arguments stay positional.
+ */
+export function getEventArgs(event: ScenarioEventRecord): unknown {
+  if (!event.argNames) {
+    return event.args;
+  }
+  const args = Object.fromEntries(event.argNames.map((name, index) => [name, event.args[index]]));
+  const formatter = eventFormatters[`${event.contract}.${event.name}`];
+  return formatter ? formatter(args) : args;
+}
 
 export function strigifyLogArgumentsVerbose(log: ScenarioLogRecord): string {
   const result: Record<string, string> = {};
@@ -67,7 +230,7 @@ export function strigifyLogArgumentsVerbose(log: ScenarioLogRecord): string {
 
 export function stringifyValue(value: unknown): string {
   if (typeof value === "string") {
-    const resolvedKnownConstant = knownConstants[value.toLowerCase() as keyof typeof knownConstants];
+    const resolvedKnownConstant = knownConstants[value.toLowerCase()];
     return resolvedKnownConstant ?? limitStringLength(value, 20);
   };
 
@@ -78,7 +241,10 @@ export function stringifyValue(value: unknown): string {
   if (Array.isArray(value)) return `[${value.map(stringifyValue).join(", ")}]`;
   if (typeof value === "object" && value !== null) {
     try {
-      return JSON.stringify(value, (_, v) => stringifyValue(v));
+      // the nested objects and arrays are kept for `JSON.stringify`, only their items are converted
+      return JSON.stringify(value, (_, item) => (typeof item === "object" && item !== null
+        ? item
+        : stringifyValue(item)));
     } catch {
       return stringifyValue(String(value));
     }
@@ -86,10 +252,99 @@ export function stringifyValue(value: unknown): string {
   return stringifyValue(String(value));
 }
 
+/**
+ * Formats a raw token amount in the token units, e.g. `BRLC 1.5` for `1500000n` with 6 decimals.
+ * Returns the raw amount if the units are unknown. The `signed` flag prefixes positive amounts with `+`.
+ */
+export function formatTokenAmount(units: TokenUnits | undefined, amount: unknown, signed = false): string {
+  const sign = signed && (typeof amount === "bigint" || typeof amount === "number") && amount > 0 ? "+" : "";
+  if (!units || (typeof amount !== "bigint" && typeof amount !== "number")) {
+    return sign + String(amount);
+  }
+  return `${units.symbol} ${sign}${formatUnits(amount, units.decimals).replace(/\.0$/, "")}`;
+}
+
+export function stringifyError(error: ScenarioErrorRecord | undefined): string {
+  if (!error) return "";
+  const name = error.contract ? `${error.contract}.${error.name}` : error.name;
+  return `${name}(${error.args.map(stringifyValue).join(", ")})`;
+}
+
+export interface BalanceDelta {
+  token: string;
+  holder: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export function getBalanceDeltas(
+  previousBalances: Record<string, Record<string, bigint>>,
+  balances: Record<string, Record<string, bigint>>,
+): BalanceDelta[] {
+  const deltas: BalanceDelta[] = [];
+  for (const [token, tokenBalances] of Object.entries(balances)) {
+    for (const [holder, after] of Object.entries(tokenBalances)) {
+      const before = previousBalances[token]?.[holder] ?? 0n;
+      if (before !== after) {
+        deltas.push({ token, holder, before, after, delta: after - before });
+      }
+    }
+  }
+  return deltas;
+}
+
+export interface StateChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export function getStateChanges(
+  previousState: Record<string, unknown> | undefined,
+  state: Record<string, unknown>,
+): StateChange[] {
+  const previousFields = flattenState(previousState ?? {});
+  return Object.entries(flattenState(state))
+    .filter(([field, after]) => !(field in previousFields) || String(previousFields[field]) !== String(after))
+    .map(([field, after]) => ({ field, before: field in previousFields ? previousFields[field] : "", after }));
+}
+
+export function stringifyGas(gas: ScenarioGasRecord | undefined): string {
+  if (!gas) return "";
+  if (!gas.delta) return gas.used.toString();
+  return `${gas.used} (${gas.delta > 0n ? "+" : ""}${gas.delta})`;
+}
+
+export function stringifyCallTrace(calls: ScenarioCallTraceRecord[], depth = 0): string {
+  const indent = "  ".repeat(depth);
+  return calls.map((call) => {
+    const args = call.argsUnavailable ? "…" : call.args.map(stringifyValue).join(", ");
+    const title = `${call.contract}.${call.method}(${args})`;
+    const line = `${indent}- ${call.caller} -> ${title}${call.type === "CALL" ? "" : ` [${call.type}]`}` +
+      (call.argsUnavailable ? " *(arguments unavailable)*" : "") + (call.reverted ? " **reverted**" : "");
+    return [line, ...(call.calls.length ? [stringifyCallTrace(call.calls, depth + 1)] : [])].join("\n");
+  }).join("\n");
+}
+
 export function stringifyInline(value: unknown): string {
   return stringifyValue(value);
 };
 
+// ethers `Result` is printed as an anonymous class, so it is converted to render like the restored snapshots
+function resultsToArrays(value: unknown): unknown {
+  if (value instanceof Result) {
+    return value.toArray(true);
+  }
+  if (Array.isArray(value)) {
+    return value.map(resultsToArrays);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resultsToArrays(item)]));
+  }
+  return value;
+}
+
 export function stringifyMultiline(value: unknown): string {
-  return prettyFormat(value);
+  return prettyFormat(resultsToArrays(value));
 };